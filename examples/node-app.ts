@@ -8,8 +8,8 @@ const app = express();
 // Add the trace middleware using the logger's traceMiddleware property
 app.use(logger.traceMiddleware);
 
-// Add Axios trace middleware
-axios.interceptors.request.use(logger.axiosTraceMiddleware.onFulfilled, logger.axiosTraceMiddleware.onRejected);
+// Log outgoing Axios requests and responses, and propagate the trace ID
+logger.instrumentAxios(axios);
 
 // Example route
 app.get('/api/example', async (req, res) => {
@@ -41,6 +41,9 @@ app.get('/api/example', async (req, res) => {
   }
 });
 
+// Log unhandled route errors with the request's trace and request IDs
+app.use(logger.createErrorMiddleware({ respond: true }));
+
 const PORT = process.env.UNNBOUND_PORT || 3000;
 app.listen(PORT, () => {
   logger.info(`Server started on port ${PORT}`);
@@ -9,43 +9,113 @@ import {
   LogLevel,
   LogType,
   HttpMethod,
+  TraceHeaderMode,
   LoggerOptions,
+  OpenTelemetryOptions,
+  LogFormat,
+  LogSchema,
+  DestinationType,
+  DestinationOptions,
+  FileRotationOptions,
+  HttpBatchOptions,
+  DropPolicy,
+  RedactOptions,
+  RedactionStrategy,
+  HeaderOptions,
+  HeaderRules,
+  HeaderMask,
+  BodyOptions,
+  LogContext,
+  ErrorMiddlewareOptions,
+  ProcessHandlerOptions,
   GeneralLogOptions,
   HttpRequestLogOptions,
   HttpResponseLogOptions,
   SftpTransactionLogOptions,
+  SftpInstrumentationOptions,
+  StorageTransactionLogOptions,
+  QueueTransactionLogOptions,
+  MessageCarrierFormat,
   DbQueryTransactionLogOptions,
+  DbInstrumentationOptions,
   Log,
   LogTransaction,
   HttpRequestLog,
   HttpResponseLog,
+  HttpResponseOutcome,
   SftpTransactionLog,
+  SftpOperation,
+  StorageTransactionLog,
+  StorageOperation,
+  QueueTransactionLog,
+  QueueOperation,
+  QueueSystem,
   DbQueryTransactionLog,
+  DbQuery,
+  DbVendor,
+  SpanLog,
+  SpanStatus,
   SerializableError,
 } from './types';
+import { Span } from './utils/span';
 import { clearTraceId } from './utils/logger-utils';
 
 // Export everything needed for the library
 export {
   // Main logger class
   UnnboundLogger,
+  Span,
 
   // Types
   LogLevel,
   LogType,
   HttpMethod,
+  TraceHeaderMode,
   LoggerOptions,
+  OpenTelemetryOptions,
+  LogFormat,
+  LogSchema,
+  DestinationType,
+  DestinationOptions,
+  FileRotationOptions,
+  HttpBatchOptions,
+  DropPolicy,
+  RedactOptions,
+  RedactionStrategy,
+  HeaderOptions,
+  HeaderRules,
+  HeaderMask,
+  BodyOptions,
+  LogContext,
+  ErrorMiddlewareOptions,
+  ProcessHandlerOptions,
   GeneralLogOptions,
   HttpRequestLogOptions,
   HttpResponseLogOptions,
   SftpTransactionLogOptions,
+  SftpInstrumentationOptions,
+  StorageTransactionLogOptions,
+  QueueTransactionLogOptions,
+  MessageCarrierFormat,
   DbQueryTransactionLogOptions,
+  DbInstrumentationOptions,
   Log,
   LogTransaction,
   HttpRequestLog,
   HttpResponseLog,
+  HttpResponseOutcome,
   SftpTransactionLog,
+  SftpOperation,
+  StorageTransactionLog,
+  StorageOperation,
+  QueueTransactionLog,
+  QueueOperation,
+  QueueSystem,
   DbQueryTransactionLog,
+  DbQuery,
+  DbVendor,
+  SpanLog,
+  SpanStatus,
   SerializableError,
 
   // Utils
@@ -5,22 +5,56 @@
 /**
  * Available log levels
  */
-export type LogLevel = "info" | "debug" | "error" | "warn";
+export type LogLevel = "info" | "debug" | "error" | "warn" | "fatal";
 
 /**
  * Available log types
  */
-export type LogType = "general" | "httpRequest" | "httpResponse" | "sftpTransaction" | "dbQueryTransaction";
+export type LogType = "general" | "httpRequest" | "httpResponse" | "sftpTransaction" | "dbQueryTransaction" | "storageTransaction" | "queueTransaction";
 
 /**
  * HTTP methods supported for HTTP logging
  */
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS' | 'HEAD';
 
+/**
+ * Trace headers read and written by the trace middleware:
+ * the custom trace header, W3C traceparent/tracestate, or both
+ */
+export type TraceHeaderMode = 'custom' | 'w3c' | 'both';
+
 export interface SerializableError {
   name: string;
   message: string;
   stack?: string;
+  code?: string | number;    // e.g. 'ECONNRESET'
+  errno?: number;
+  syscall?: string;
+  method?: string;           // AxiosError only
+  url?: string;              // AxiosError only
+  status?: number;           // AxiosError only
+  cause?: unknown;           // Serialized when the cause is an Error
+  errors?: unknown[];        // AggregateError errors, serialized when they are Errors
+  [key: string]: unknown;    // Enumerable custom properties
+}
+
+/**
+ * Request-scoped context shared by every log written inside it
+ */
+export interface LogContext {
+  traceId?: string;
+  requestId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  /** W3C trace flags propagated to outgoing calls */
+  traceFlags?: string;
+  /** W3C tracestate propagated to outgoing calls */
+  traceState?: string;
+  workflowId?: string;
+  userId?: string;
+  tenantId?: string;
+  /** Arbitrary fields merged into the data of every log */
+  bindings?: Record<string, unknown>;
 }
 
 export interface Log<T extends LogType = 'general'> {
@@ -33,14 +67,35 @@ export interface Log<T extends LogType = 'general'> {
   workflowId: string;
   traceId: string;
   requestId: string;
-  // spanId?: string; // To be added later
+  spanId?: string;
+  parentSpanId?: string;
+  userId?: string;
+  tenantId?: string;
   error?: SerializableError;
+  data?: Record<string, unknown>;
 }
 
 export interface LogTransaction<T extends LogType> extends Log<T> {
   duration: number;
 }
 
+/**
+ * Outcome of a span
+ */
+export type SpanStatus = 'ok' | 'error';
+
+export interface SpanLog extends LogTransaction<'general'> {
+  span: {
+    name: string;
+    spanId: string;
+    parentSpanId?: string;
+    startTime: number; // Epoch milliseconds
+    endTime: number; // Epoch milliseconds
+    status: SpanStatus;
+    attributes: Record<string, unknown>;
+  };
+}
+
 export interface HttpRequestLog extends LogTransaction<'httpRequest'> {
   httpRequest: {
     url: string;
@@ -48,9 +103,16 @@ export interface HttpRequestLog extends LogTransaction<'httpRequest'> {
     headers: Record<string, string>;
     ip?: string;
     body?: unknown;
+    attempt?: number; // Attempt number of retried outgoing calls
   };
 }
 
+/**
+ * How an incoming request ended: the response finished, the client closed the
+ * connection first, or the request timed out
+ */
+export type HttpResponseOutcome = 'completed' | 'aborted' | 'timeout';
+
 export interface HttpResponseLog extends LogTransaction<'httpResponse'> {
   httpResponse: {
     url: string;
@@ -59,6 +121,9 @@ export interface HttpResponseLog extends LogTransaction<'httpResponse'> {
     ip?: string;
     status: number;
     body?: unknown;
+    outcome?: HttpResponseOutcome; // Set by traceMiddleware
+    bytesSent?: number;           // Body bytes written by traceMiddleware
+    attempt?: number;             // Attempt number of retried outgoing calls
   };
 }
 
@@ -66,36 +131,377 @@ export interface SftpTransactionLog extends LogTransaction<'sftpTransaction'> {
   sftp: {
     host: string;
     username: string;
-    operation: 'upload' | 'download' | 'list' | 'delete' | 'rename' | 'stat';
+    operation:
+      | 'upload'
+      | 'download'
+      | 'list'
+      | 'delete'
+      | 'rename'
+      | 'stat'
+      | 'mkdir'
+      | 'rmdir'
+      | 'exists'
+      | 'append'
+      | 'chmod';
     path: string;
-    status: 'success' | 'failure';
-    bytesTransferred?: number; // For upload/download
+    status: 'success' | 'failure' | 'in_progress'; // in_progress for progress entries
+    bytesTransferred?: number; // For upload/download/append, so far for in_progress entries
+    totalBytes?: number;       // Size of a running transfer, when known
+    bytesPerSecond?: number;   // Transfer rate since the previous progress entry
     filesListed?: number;      // For list operations
     sourcePath?: string;       // Specifically for 'rename' operations
   };
 }
 
+/**
+ * An SFTP operation, as logged by sftpTransaction
+ */
+export type SftpOperation = SftpTransactionLog['sftp'];
+
+/**
+ * Database vendors supported by database query logging
+ */
+export type DbVendor = 'postgres' | 'mysql' | 'mssql' | 'mongodb';
+
 export interface DbQueryTransactionLog extends LogTransaction<'dbQueryTransaction'> {
   db: {
     instance: string; // e.g., the DB host or a connection pool name
-    vendor: 'postgres' | 'mysql' | 'mssql' | 'mongodb';
+    vendor: DbVendor;
     query?: string; // sanitized query without password
+    fingerprint?: string; // hash of the sanitized query, equal for executions of the same statement
     status: 'success' | 'failure';
     rowsReturned?: number;   // For SELECT statements
     rowsAffected?: number;   // For INSERT, UPDATE, DELETE statements
   };
 }
 
+/**
+ * A database query, as logged by dbQueryTransaction
+ */
+export type DbQuery = DbQueryTransactionLog['db'];
+
+export interface StorageTransactionLog extends LogTransaction<'storageTransaction'> {
+  storage: {
+    bucket: string;
+    key?: string;              // Object key; omitted for bucket-level operations such as list
+    operation: 'put' | 'get' | 'list' | 'delete' | 'copy' | 'multipart';
+    status: 'success' | 'failure';
+    bytesTransferred?: number; // For put/get and multipart part uploads
+    etag?: string;             // Entity tag of the written or read object, without quotes
+    objectsListed?: number;    // For list operations
+    sourceBucket?: string;     // Specifically for 'copy' operations
+    sourceKey?: string;        // Specifically for 'copy' operations
+  };
+}
+
+/**
+ * An object storage operation, as logged by storageTransaction
+ */
+export type StorageOperation = StorageTransactionLog['storage'];
+
+/**
+ * Messaging systems supported by queue transaction logging
+ */
+export type QueueSystem = 'sqs' | 'sns' | 'rabbitmq' | 'kafka' | 'other';
+
+export interface QueueTransactionLog extends LogTransaction<'queueTransaction'> {
+  queue: {
+    system: QueueSystem;
+    name: string;              // Queue, topic or exchange name
+    operation: 'publish' | 'consume' | 'ack' | 'nack';
+    status: 'success' | 'failure';
+    messageId?: string;
+    payloadSize?: number;      // Size of the message body in bytes
+    deliveryAttempt?: number;  // 1 for the first delivery, e.g. SQS ApproximateReceiveCount
+    partition?: number;        // Kafka partition
+  };
+}
+
+/**
+ * A message queue operation, as logged by queueTransaction
+ */
+export type QueueOperation = QueueTransactionLog['queue'];
+
+/**
+ * Format of trace context written to message attributes or headers:
+ * plain string values (RabbitMQ, Kafka) or SQS/SNS message attributes
+ */
+export type MessageCarrierFormat = 'headers' | 'sqs';
+
+/**
+ * Fields of a log entry of any type, excluding level and message, as written to Pino
+ */
+export interface LogFields extends Partial<Omit<Log<LogType>, 'level' | 'message'>> {
+  duration?: number;
+  httpRequest?: HttpRequestLog['httpRequest'];
+  httpResponse?: HttpResponseLog['httpResponse'];
+  sftp?: SftpTransactionLog['sftp'];
+  db?: DbQueryTransactionLog['db'];
+  storage?: StorageTransactionLog['storage'];
+  queue?: QueueTransactionLog['queue'];
+  span?: SpanLog['span'];
+}
+
+/**
+ * How redacted values are replaced: with a mask string, a SHA-256 hash prefix, or removed entirely
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'remove';
+
+/**
+ * Options for redacting sensitive data from every log type
+ */
+export interface RedactOptions {
+  /**
+   * Dot-separated paths within the log entry, e.g. 'httpRequest.body.password'.
+   * '*' matches any single key or array index, e.g. 'data.cards[*].number'.
+   */
+  paths?: string[];
+  /** Key names redacted at any depth; strings match case-insensitively */
+  keys?: (string | RegExp)[];
+  /** Patterns redacted within any string value or message, e.g. card numbers */
+  values?: RegExp[];
+  /** How redacted values are replaced (default: 'mask') */
+  strategy?: RedactionStrategy;
+  /** Replacement used by the 'mask' strategy (default: '[REDACTED]') */
+  mask?: string;
+}
+
+/**
+ * How a logged header value is masked:
+ * - 'full' replaces the whole value with '[REDACTED]'
+ * - 'scheme' keeps the authentication scheme only, e.g. 'Bearer [REDACTED]'
+ * - 'partial' keeps the last four characters, e.g. '[REDACTED]a1b2'
+ */
+export type HeaderMask = 'full' | 'scheme' | 'partial';
+
+/**
+ * Which headers are logged and how. Header names match case-insensitively.
+ */
+export interface HeaderRules {
+  /** Headers logged in addition to the defaults; '*' logs every header */
+  allow?: string[];
+  /** Headers never logged; takes precedence over allow and mask */
+  deny?: string[];
+  /** Headers logged with a masked value, e.g. { authorization: 'scheme' } */
+  mask?: Record<string, HeaderMask>;
+}
+
+/**
+ * Header rules for each kind of HTTP log
+ */
+export interface HeaderOptions {
+  /** Headers of incoming requests */
+  request?: HeaderRules;
+  /** Headers of responses to incoming requests */
+  response?: HeaderRules;
+  /** Headers of outgoing Axios requests and their responses */
+  outgoing?: HeaderRules;
+}
+
+/**
+ * Limits and rules for capturing HTTP request and response bodies
+ */
+export interface BodyOptions {
+  /** Maximum serialized body size in bytes; larger bodies are truncated (default: 65536) */
+  maxBytes?: number;
+  /**
+   * Content types whose bodies are not logged, in addition to binary, multipart,
+   * image, audio and video types. 'type/*' matches any subtype.
+   */
+  skipContentTypes?: string[];
+  /** Routes whose bodies are not logged (supports glob patterns) */
+  ignoreRoutes?: string[];
+}
+
+/**
+ * Span context of an OpenTelemetry span (subset of @opentelemetry/api's SpanContext)
+ */
+export interface OtelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+/**
+ * The part of @opentelemetry/api's `trace` API used by the OpenTelemetry bridge
+ */
+export interface OtelTraceApi {
+  getActiveSpan(): { spanContext(): OtelSpanContext } | undefined;
+}
+
+/**
+ * An OpenTelemetry LogRecord (subset of @opentelemetry/api-logs' LogRecord)
+ */
+export interface OtelLogRecord {
+  timestamp?: number;
+  severityNumber?: number;
+  severityText?: string;
+  body?: string;
+  attributes?: Record<string, string | number | boolean>;
+}
+
+/**
+ * The part of @opentelemetry/api-logs' `logs` API used by the OpenTelemetry bridge
+ */
+export interface OtelLogsApi {
+  getLogger(name: string): { emit(record: OtelLogRecord): void };
+}
+
+/**
+ * Options for the optional OpenTelemetry bridge
+ */
+export interface OpenTelemetryOptions {
+  /** Fill traceId and spanId from the active OpenTelemetry span (default: true) */
+  useActiveSpan?: boolean;
+  /** Also emit every log as an OpenTelemetry LogRecord (default: false) */
+  emitLogRecords?: boolean;
+  /** Instrumentation scope name for emitted LogRecords (default: 'unnbound-logger') */
+  loggerName?: string;
+  /** Trace API to use instead of loading `trace` from @opentelemetry/api */
+  traceApi?: OtelTraceApi;
+  /** Logs API to use instead of loading `logs` from @opentelemetry/api-logs */
+  logsApi?: OtelLogsApi;
+}
+
+/**
+ * Output format: single-line JSON, or colourised human-readable lines for development
+ */
+export type LogFormat = 'json' | 'pretty';
+
+/**
+ * Shape of JSON log entries: the native Unnbound shape, Elastic Common Schema,
+ * GCP Cloud Logging structured JSON, or an OTLP/JSON LogRecord
+ */
+export type LogSchema = 'unnbound' | 'ecs' | 'gcp' | 'otlp';
+
+/**
+ * Kind of log destination
+ */
+export type DestinationType = 'stdout' | 'stderr' | 'file' | 'stream' | 'transport' | 'http';
+
+/**
+ * Size-based rotation of a file destination
+ */
+export interface FileRotationOptions {
+  /** Size in bytes after which the file is rotated */
+  maxSize: number;
+  /** Number of rotated files to keep, named <path>.1 (newest) to <path>.<maxFiles> (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * What an HTTP destination does with a new entry when its queue is full
+ */
+export type DropPolicy = 'oldest' | 'newest';
+
+/**
+ * Batching, retry and queueing of an HTTP destination
+ */
+export interface HttpBatchOptions {
+  /** Maximum number of entries per request; a full batch is sent immediately (default: 100) */
+  maxBatchSize?: number;
+  /** Maximum time in ms an entry waits before its batch is sent (default: 5000) */
+  flushInterval?: number;
+  /** Maximum number of entries waiting to be sent (default: 10000) */
+  maxQueueSize?: number;
+  /** Entry to drop when the queue is full: the oldest queued entry or the new one (default: 'oldest') */
+  dropPolicy?: DropPolicy;
+  /** Number of retries of a failed request (default: 3) */
+  maxRetries?: number;
+  /** Delay in ms before the first retry, doubled for each further retry (default: 1000) */
+  retryDelay?: number;
+  /** Request timeout in ms (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * A log output with its own minimum level and log type filter
+ */
+export interface DestinationOptions {
+  type: DestinationType;
+  /** Minimum level written to this destination (default: every level the logger writes) */
+  level?: LogLevel;
+  /** Log types written to this destination (default: all types) */
+  types?: LogType[];
+  /** File path, for 'file' destinations; missing directories are created */
+  path?: string;
+  /** Size-based rotation, for 'file' destinations */
+  rotate?: FileRotationOptions;
+  /** Stream that receives one JSON line per log entry, for 'stream' destinations */
+  stream?: { write(line: string): unknown };
+  /** Module name or path of a Pino transport, for 'transport' destinations */
+  target?: string;
+  /** Options passed to the Pino transport */
+  options?: Record<string, unknown>;
+  /** Endpoint that batches are POSTed to as a JSON array, for 'http' destinations */
+  url?: string;
+  /** Extra request headers, e.g. Authorization, for 'http' destinations */
+  headers?: Record<string, string>;
+  /** Batching, retry and queueing, for 'http' destinations */
+  batch?: HttpBatchOptions;
+}
+
 /**
  * Configuration options for the logger
  */
 export interface LoggerOptions {
+  /** Minimum log level (default: UNNBOUND_LOG_LEVEL environment variable, then 'info') */
+  level?: LogLevel;
+  /** Per-log-type minimum level overrides, e.g. { dbQueryTransaction: 'debug' } */
+  typeLevels?: Partial<Record<LogType, LogLevel>>;
   /** Optional trace header key */
   traceHeaderKey?: string;
+  /** Trace headers to read and write (default: 'custom') */
+  traceHeaderMode?: TraceHeaderMode;
+  /** Redaction of sensitive data, applied to every log type */
+  redact?: RedactOptions;
+  /** Header allow-list, deny-list and masking rules for HTTP logs */
+  headers?: HeaderOptions;
+  /** Body size limit and capture rules for HTTP logs */
+  body?: BodyOptions;
+  /** Output format of stdout and stderr destinations (default: UNNBOUND_LOG_FORMAT, then 'json') */
+  format?: LogFormat;
+  /** Shape of JSON log entries (default: 'unnbound'); pretty output always uses the native shape */
+  schema?: LogSchema;
+  /** Outputs to write logs to (default: stdout) */
+  destinations?: DestinationOptions[];
+  /** Replace query literals with placeholders and mask credentials in database logs (default: true) */
+  sanitizeQueries?: boolean;
+  /** Enables the OpenTelemetry bridge; requires @opentelemetry/api (and api-logs to emit LogRecords) */
+  openTelemetry?: boolean | OpenTelemetryOptions;
   /** Routes to ignore in trace middleware (supports glob patterns) */
   ignoreTraceRoutes?: string[];
   /** Routes to ignore in axios trace middleware (supports glob patterns) */
   ignoreAxiosTraceRoutes?: string[];
+  /** URLs or paths to ignore in fetch instrumentation (supports glob patterns) */
+  ignoreFetchTraceRoutes?: string[];
+}
+
+/**
+ * Options for the Express error middleware
+ */
+export interface ErrorMiddlewareOptions {
+  /**
+   * Respond with a JSON error body ({ error, requestId, traceId }) using the error's
+   * status or statusCode (default 500) instead of passing the error to next() (default: false)
+   */
+  respond?: boolean;
+}
+
+/**
+ * Options for process-level crash and shutdown handling
+ */
+export interface ProcessHandlerOptions {
+  /** Exit code after an uncaught exception or unhandled rejection (default: 1) */
+  exitCode?: number;
+  /** Exit code after a termination signal (default: 0) */
+  signalExitCode?: number;
+  /** Signals that trigger a graceful flush and exit (default: ['SIGTERM', 'SIGINT']) */
+  signals?: NodeJS.Signals[];
+  /** Exit the process once the logs are flushed (default: true) */
+  exit?: boolean;
+  /** Maximum time to wait for the flush before exiting, in milliseconds (default: 2000) */
+  flushTimeout?: number;
 }
 
 /**
@@ -118,6 +524,8 @@ export interface GeneralLogOptions {
 export interface HttpRequestLogOptions extends GeneralLogOptions {
   /** Start time of the request for duration calculation */
   startTime?: number;
+  /** Attempt number of a retried outgoing call, starting at 1 */
+  attempt?: number;
 }
 
 /**
@@ -126,6 +534,8 @@ export interface HttpRequestLogOptions extends GeneralLogOptions {
 export interface HttpResponseLogOptions extends HttpRequestLogOptions {
   /** Duration of the request in milliseconds */
   duration?: number;
+  /** How the request ended; aborted and timed-out requests are logged at warn level */
+  outcome?: HttpResponseOutcome;
 }
 
 /**
@@ -136,6 +546,8 @@ export interface SftpTransactionLogOptions extends GeneralLogOptions {
   startTime?: number;
   /** Duration of the transaction in milliseconds */
   duration?: number;
+  /** Error that made the operation fail, logged in the error field */
+  error?: Error;
 }
 
 /**
@@ -146,4 +558,53 @@ export interface DbQueryTransactionLogOptions extends GeneralLogOptions {
   startTime?: number;
   /** Duration of the query in milliseconds */
   duration?: number;
+  /** Error that made the query fail, logged in the error field */
+  error?: Error;
+}
+
+/**
+ * Options for object storage transaction logs
+ */
+export interface StorageTransactionLogOptions extends GeneralLogOptions {
+  /** Start time of the transaction for duration calculation */
+  startTime?: number;
+  /** Duration of the transaction in milliseconds */
+  duration?: number;
+  /** Error that made the operation fail, logged in the error field */
+  error?: Error;
+}
+
+/**
+ * Options for message queue transaction logs
+ */
+export interface QueueTransactionLogOptions extends GeneralLogOptions {
+  /** Start time of the transaction for duration calculation */
+  startTime?: number;
+  /** Duration of the transaction in milliseconds */
+  duration?: number;
+  /** Error that made the operation fail, logged in the error field */
+  error?: Error;
+}
+
+/**
+ * Options for automatic database query logging
+ */
+export interface DbInstrumentationOptions {
+  /** Instance name to log (default: host:port/database of the connection) */
+  instance?: string;
+}
+
+/**
+ * Options for automatic SFTP transaction logging
+ */
+export interface SftpInstrumentationOptions {
+  /** SFTP server host to log */
+  host: string;
+  /** User name to log */
+  username: string;
+  /**
+   * Interval between progress entries of running transfers, in milliseconds
+   * (default: 10000; 0 disables progress entries)
+   */
+  progressInterval?: number;
 }
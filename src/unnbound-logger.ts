@@ -4,33 +4,118 @@
 import pino from 'pino';
 import {
   LogLevel,
+  LogType,
   LoggerOptions,
+  LogContext,
+  ErrorMiddlewareOptions,
+  ProcessHandlerOptions,
+  HeaderOptions,
+  HeaderRules,
+  BodyOptions,
+  TraceHeaderMode,
   GeneralLogOptions,
   HttpRequestLogOptions,
   HttpResponseLogOptions,
+  HttpResponseOutcome,
   SftpTransactionLogOptions,
+  SftpOperation,
+  SftpInstrumentationOptions,
+  StorageTransactionLogOptions,
+  StorageOperation,
+  QueueTransactionLogOptions,
+  QueueOperation,
+  MessageCarrierFormat,
   DbQueryTransactionLogOptions,
+  DbInstrumentationOptions,
   Log,
+  LogFields,
   HttpRequestLog,
   HttpResponseLog,
   SftpTransactionLog,
+  StorageTransactionLog,
+  QueueTransactionLog,
   DbQueryTransactionLog,
+  DbVendor,
+  SpanLog,
   SerializableError,
 } from './types';
 import { filterHeaders, normalizeIp, safeJsonParse } from './utils/logger-utils';
 import { v4 as uuidv4 } from 'uuid';
-import { Request, Response, NextFunction } from 'express';
-import { traceContext } from './utils/trace-context';
-import { InternalAxiosRequestConfig, AxiosHeaders } from 'axios';
-import { getStatusMessage } from './utils/http-status-messages';
+import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+import { TraceContext, traceContext } from './utils/trace-context';
+import { Span } from './utils/span';
+import {
+  BodyCollector,
+  DEFAULT_MAX_BODY_BYTES,
+  captureBody,
+  isStreamingContentType,
+  isTextContentType,
+  readStreamStart,
+} from './utils/body';
+import { OpenTelemetryBridge } from './utils/opentelemetry';
+import { getErrorHeadline, serializeError } from './utils/serialize-error';
+import { Redactor, createRedactor } from './utils/redact';
+import {
+  Destination,
+  LOG_TYPE,
+  countDroppedLogs,
+  createDestinations,
+  flushDestination,
+} from './utils/destinations';
+import { parseLogFormat } from './utils/pretty';
+import { OutputSchema, createOutputSchema } from './utils/schema';
+import { fingerprintQuery, sanitizeQuery } from './utils/sanitize-query';
+import { instrumentSftpClient } from './utils/sftp-instrumentation';
+import { StorageClient, instrumentStorageClient } from './utils/storage-instrumentation';
+import { MessageCarrier, readCarrierValue, writeCarrierValues } from './utils/message-trace';
+import {
+  MongoCommandEmitter,
+  instrumentMongoCommands,
+  instrumentMssqlQueries,
+  instrumentMysqlQueries,
+  instrumentPgQueries,
+} from './utils/db-instrumentation';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  AxiosHeaders,
+} from 'axios';
+import { getStatusMessage, httpStatusDetails } from './utils/http-status-messages';
+import {
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  formatTraceParent,
+  generateSpanId,
+  generateW3cTraceId,
+  parseTraceParent,
+  toW3cTraceId,
+} from './utils/trace-parent';
+import { LOG_LEVEL_VALUES, isLogLevel, lowestLogLevel, parseLogLevel } from './utils/log-level';
 
 // Extend AxiosRequestConfig to include metadata
 declare module 'axios' {
   interface InternalAxiosRequestConfig {
-    metadata?: { startTime: number; requestId?: string };
+    metadata?: { startTime: number; requestId?: string; attempt?: number };
   }
 }
 
+/**
+ * Gets the retry count that axios-retry stores on a request config
+ * (`config['axios-retry'].retryCount`, or `__retryCount` in older versions)
+ * @param config - Axios request config
+ * @returns The number of retries so far, or undefined if the request isn't retry-aware
+ */
+function getAxiosRetryCount(config: InternalAxiosRequestConfig): number | undefined {
+  const retryConfig = config as InternalAxiosRequestConfig & {
+    'axios-retry'?: { retryCount?: number };
+    __retryCount?: number;
+  };
+  const retryCount = retryConfig['axios-retry']?.retryCount ?? retryConfig.__retryCount;
+  return typeof retryCount === 'number' ? retryCount : undefined;
+}
+
 /**
  * UnnboundLogger provides typed, structured logging using Pino
  */
@@ -41,34 +126,179 @@ export class UnnboundLogger {
   private serviceId: string;
   private deploymentId: string;
   private traceHeaderKey: string;
+  private traceHeaderMode: TraceHeaderMode;
   private ignoreTraceRoutes: string[];
   private ignoreAxiosTraceRoutes: string[];
+  private ignoreFetchTraceRoutes: string[];
+  private headerOptions: HeaderOptions;
+  private bodyOptions: BodyOptions;
+  private sanitizeQueries: boolean;
+  private level: LogLevel;
+  private typeLevels: Partial<Record<LogType, LogLevel>>;
+  private options: LoggerOptions;
+  private bindings: Record<string, unknown> = {};
+  private otel?: OpenTelemetryBridge;
+  private redactor?: Redactor;
+  private outputSchema?: OutputSchema;
+  private destinations: Destination[] = [];
 
   /**
    * Creates a new UnnboundLogger instance
    * @param options - Configuration options for the logger
+   * @param parent - Logger whose environment, levels and destination are inherited (used by child())
    */
-  constructor(options: LoggerOptions = {}) {
-    this.workflowId = process.env.UNNBOUND_WORKFLOW_ID || '';
-    this.workflowUrl = process.env.UNNBOUND_WORKFLOW_URL || '';
-    this.serviceId = process.env.UNNBOUND_SERVICE_ID || '';
-    this.deploymentId = process.env.UNNBOUND_DEPLOYMENT_ID || '';
+  constructor(options: LoggerOptions = {}, parent?: UnnboundLogger) {
+    this.options = options;
+    this.workflowId = parent ? parent.workflowId : process.env.UNNBOUND_WORKFLOW_ID || '';
+    this.workflowUrl = parent ? parent.workflowUrl : process.env.UNNBOUND_WORKFLOW_URL || '';
+    this.serviceId = parent ? parent.serviceId : process.env.UNNBOUND_SERVICE_ID || '';
+    this.deploymentId = parent ? parent.deploymentId : process.env.UNNBOUND_DEPLOYMENT_ID || '';
     this.traceHeaderKey = options.traceHeaderKey || 'unnbound-trace-id';
+    this.traceHeaderMode = options.traceHeaderMode || 'custom';
     this.ignoreTraceRoutes = options.ignoreTraceRoutes || [];
     this.ignoreAxiosTraceRoutes = options.ignoreAxiosTraceRoutes || [];
+    this.ignoreFetchTraceRoutes = options.ignoreFetchTraceRoutes || [];
+    this.headerOptions = options.headers || {};
+    this.bodyOptions = options.body || {};
+    this.sanitizeQueries = options.sanitizeQueries !== false;
+    this.level =
+      parent?.level || options.level || parseLogLevel(process.env.UNNBOUND_LOG_LEVEL) || 'info';
+    this.typeLevels = { ...(parent ? parent.typeLevels : options.typeLevels) };
+
+    if (parent) {
+      this.otel = parent.otel;
+      this.redactor = parent.redactor;
+      this.outputSchema = parent.outputSchema;
+      this.destinations = parent.destinations;
+      // A Pino child shares the parent's destination but keeps its own level
+      this.logger = parent.logger.child({});
+      return;
+    }
+
+    if (options.redact) {
+      this.redactor = createRedactor(options.redact);
+    }
+
+    if (options.openTelemetry) {
+      this.otel = new OpenTelemetryBridge(
+        options.openTelemetry === true ? {} : options.openTelemetry
+      );
+    }
+
+    // JSON to stdout is Pino's default destination; pretty output to stdout needs its own
+    const format = options.format || parseLogFormat(process.env.UNNBOUND_LOG_FORMAT) || 'json';
+    if (options.destinations?.length) {
+      this.destinations = createDestinations(options.destinations, format);
+    } else if (format === 'pretty') {
+      this.destinations = createDestinations([{ type: 'stdout' }], format);
+    }
+
+    if (format === 'json' && options.schema) {
+      this.outputSchema = createOutputSchema(options.schema);
+    }
 
     // Create Pino logger
-    this.logger = pino({
-      level: 'info',
+    const pinoOptions: pino.LoggerOptions = {
+      level: this.getPinoLevel(),
       base: {}, // Disable all default base fields (pid, hostname)
       timestamp: false, // Let CloudWatch handle timestamps
       messageKey: 'messages', // Change message field from 'msg' to 'messages'
       formatters: {
+        // Other schemas name the level field differently
         level: (label: string) => {
-          return { level: label };
+          return this.outputSchema ? this.outputSchema.level(label as LogLevel) : { level: label };
         },
       },
-    });
+    };
+    this.logger = this.destinations.length
+      ? pino(pinoOptions, pino.multistream(this.destinations))
+      : pino(pinoOptions);
+  }
+
+  /**
+   * Creates a child logger that adds the given bindings to the data of every log.
+   * The child shares this logger's configuration and destination; its level starts
+   * at this logger's level and can then be changed independently.
+   * @param bindings - Fields to bind, e.g. { jobId, customerId }
+   * @returns A new UnnboundLogger
+   */
+  child(bindings: Record<string, unknown>): UnnboundLogger {
+    const child = new UnnboundLogger(this.options, this);
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
+  /**
+   * Changes the minimum log level at runtime
+   * @param level - The new minimum level
+   * @param type - Optional log type to override; when omitted the global level is changed
+   */
+  setLevel(level: LogLevel, type?: LogType): void {
+    if (!isLogLevel(level)) {
+      throw new Error(`Invalid log level: ${String(level)}`);
+    }
+
+    if (type) {
+      this.typeLevels[type] = level;
+    } else {
+      this.level = level;
+    }
+    this.logger.level = this.getPinoLevel();
+  }
+
+  /**
+   * Gets the effective minimum log level
+   * @param type - Optional log type; its override takes precedence over the global level
+   * @returns The effective minimum level
+   */
+  getLevel(type?: LogType): LogLevel {
+    return (type && this.typeLevels[type]) || this.level;
+  }
+
+  /**
+   * Checks whether logs of the given level would be written
+   * @param level - The level to check
+   * @param type - The log type to check (default: 'general')
+   * @returns boolean indicating if the level is enabled
+   */
+  isLevelEnabled(level: LogLevel, type: LogType = 'general'): boolean {
+    return LOG_LEVEL_VALUES[level] >= LOG_LEVEL_VALUES[this.getLevel(type)];
+  }
+
+  /**
+   * Gets the level for the underlying Pino logger, which must let through
+   * every level enabled by the global level or any per-type override
+   * @returns The most verbose configured level
+   */
+  private getPinoLevel(): LogLevel {
+    return lowestLogLevel([this.level, ...Object.values(this.typeLevels)]);
+  }
+
+  /**
+   * Writes a log entry to Pino if its level is enabled for its type. Redaction and the
+   * output schema are applied here so that they cover every log type and every output.
+   * @param level - Log level
+   * @param type - Log type used for per-type level overrides
+   * @param logData - Structured log fields
+   * @param message - Log message
+   */
+  private write(level: LogLevel, type: LogType, logData: LogFields, message: string): void {
+    if (!this.isLevelEnabled(level, type)) {
+      return;
+    }
+
+    if (this.redactor) {
+      logData = this.redactor(logData);
+      message = this.redactor(message);
+    }
+
+    if (this.outputSchema) {
+      // The log type is kept for destination type filters but not serialized
+      this.logger[level]({ ...this.outputSchema.map(level, logData, message), [LOG_TYPE]: type });
+    } else {
+      this.logger[level](logData, message);
+    }
+    this.otel?.emit(level, logData, message);
   }
 
   /**
@@ -89,6 +319,97 @@ export class UnnboundLogger {
     });
   }
 
+  /**
+   * Checks if a URL should be ignored, matching the patterns against the full URL and its path
+   * @param url - The URL to check
+   * @param patterns - Array of glob patterns to match against
+   * @returns boolean indicating if the URL should be ignored
+   */
+  private shouldIgnoreUrl(url: string, patterns: string[]): boolean {
+    if (this.shouldIgnorePath(url, patterns)) {
+      return true;
+    }
+    try {
+      return this.shouldIgnorePath(new URL(url).pathname, patterns);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Picks the trace ID and span IDs of a log as a pair, so that a log never carries the
+   * span of one trace with the ID of another. The active OpenTelemetry span (when the
+   * bridge is enabled) is used unless an explicit trace ID names a different trace; the
+   * request context's spans are only used with the context's own trace ID.
+   * @param explicitTraceId - Trace ID passed in the log options
+   * @param context - The active request context
+   * @returns The trace ID and the span IDs that belong to it
+   */
+  private resolveTraceIds(
+    explicitTraceId: string | undefined,
+    context: TraceContext | undefined
+  ): { traceId: string; spanId?: string; parentSpanId?: string } {
+    const otelSpan = this.otel?.getActiveSpanContext();
+    if (otelSpan && (!explicitTraceId || toW3cTraceId(explicitTraceId) === otelSpan.traceId)) {
+      return { traceId: otelSpan.traceId, spanId: otelSpan.spanId };
+    }
+
+    const traceId = explicitTraceId || context?.traceId || uuidv4();
+    return traceId === context?.traceId
+      ? { traceId, spanId: context.spanId, parentSpanId: context.parentSpanId }
+      : { traceId };
+  }
+
+  /**
+   * Builds the correlation fields shared by every log type. Explicit options take
+   * precedence over the active OpenTelemetry span (when the bridge is enabled), then
+   * the active request context, then the environment defaults.
+   * @param type - Log type
+   * @param options - Options that may override traceId, requestId and workflowId
+   * @returns The base fields of a log entry
+   */
+  private createBaseEntry<T extends LogType>(
+    type: T,
+    options: { traceId?: string; requestId?: string; workflowId?: string } = {}
+  ): Omit<Log<T>, 'level' | 'message'> {
+    const context = traceContext.getContext();
+    const { traceId, spanId, parentSpanId } = this.resolveTraceIds(options.traceId, context);
+
+    return {
+      logId: uuidv4(),
+      type,
+      workflowId: options.workflowId || context?.workflowId || this.workflowId,
+      serviceId: this.serviceId,
+      traceId,
+      requestId: options.requestId || context?.requestId || uuidv4(),
+      deploymentId: this.deploymentId,
+      ...(spanId && { spanId }),
+      ...(parentSpanId && { parentSpanId }),
+      ...(context?.userId && { userId: context.userId }),
+      ...(context?.tenantId && { tenantId: context.tenantId }),
+    };
+  }
+
+  /**
+   * Gets the child logger bindings merged with those of the active request context
+   * @returns The bindings, or undefined if there are none
+   */
+  private getBindings(): Record<string, unknown> | undefined {
+    const bindings = { ...this.bindings, ...traceContext.getContext()?.bindings };
+    return Object.keys(bindings).length > 0 ? bindings : undefined;
+  }
+
+  /**
+   * Runs a function with additional fields in the request context. Every log written
+   * inside the function, including from async work it starts, carries these fields.
+   * @param context - Context fields to add; `bindings` are merged into each log's data
+   * @param fn - Function to run
+   * @returns The return value of the function
+   */
+  withContext<T>(context: LogContext, fn: () => T): T {
+    return traceContext.extend(context, fn);
+  }
+
   /**
    * Logs a general message
    * @param level - Log level
@@ -100,10 +421,6 @@ export class UnnboundLogger {
     message: string | Error | Record<string, unknown>,
     options: GeneralLogOptions = {}
   ): Log {
-    const logId = uuidv4();
-    const traceId = options.traceId || traceContext.getTraceId() || uuidv4();
-    const requestId = options.requestId || uuidv4();
-
     let logEntry: Omit<Log<'general'>, 'level'> & { [key: string]: any };
 
     const {
@@ -113,36 +430,26 @@ export class UnnboundLogger {
       ...restOptions
     } = options;
 
-    // If restOptions has any properties, we'll add them to data later
-    const hasRestOptions = Object.keys(restOptions).length > 0;
+    // Bindings and restOptions are added to data, with restOptions taking precedence
+    const bindings = this.getBindings();
+    const data = { ...bindings, ...restOptions };
+    const hasData = Object.keys(data).length > 0;
 
-    const baseEntry = {
-      logId,
-      type: 'general' as const,
-      workflowId: this.workflowId,
-      serviceId: this.serviceId,
-      traceId,
-      requestId,
-      deploymentId: this.deploymentId,
-    };
+    const baseEntry = this.createBaseEntry('general', options);
 
     if (message instanceof Error) {
-      const error: SerializableError = {
-        name: message.name,
-        message: message.message,
-        stack: message.stack,
-      };
+      const error: SerializableError = serializeError(message);
       logEntry = {
         ...baseEntry,
-        message: message.name,
+        message: getErrorHeadline(message),
         error,
-        ...(hasRestOptions && { data: restOptions }),
+        ...(hasData && { data }),
       };
     } else if (typeof message === 'string') {
       logEntry = {
         ...baseEntry,
         message,
-        ...(hasRestOptions && { data: restOptions }),
+        ...(hasData && { data }),
       };
     } else {
       // If message is an object, wrap it in a 'data' key
@@ -150,13 +457,13 @@ export class UnnboundLogger {
       logEntry = {
         ...baseEntry,
         message: 'Structured log data',
-        data: hasRestOptions ? { ...messageObj, ...restOptions } : messageObj,
+        data: hasData ? { ...bindings, ...messageObj, ...restOptions } : messageObj,
       };
     }
 
     // Separate the message from the log data and explicitly exclude any level field
     const { message: logMessage, level: excludedLevel, ...logData } = logEntry as any;
-    this.logger[level](logData, logMessage);
+    this.write(level, 'general', logData as LogFields, logMessage as string);
     
     return logEntry as Log;
   }
@@ -188,6 +495,15 @@ export class UnnboundLogger {
     return this.log('info', message, options);
   }
 
+  /**
+   * Logs a fatal error, e.g. one that forces the process to exit
+   * @param message - Error message or object
+   * @param options - Additional logging options
+   */
+  fatal(message: string | Error | Record<string, unknown>, options: GeneralLogOptions = {}): Log {
+    return this.log('fatal', message, options);
+  }
+
   /**
    * Logs a debug message
    * @param message - Debug message
@@ -197,6 +513,96 @@ export class UnnboundLogger {
     return this.log('debug', message, options);
   }
 
+  /**
+   * Flushes buffered log lines to every destination, e.g. before a Lambda handler returns
+   * @returns A promise that resolves once the destinations have been flushed
+   */
+  async flush(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.logger.flush(err => (err ? reject(err) : resolve()));
+    });
+    await Promise.all(this.destinations.map(flushDestination));
+  }
+
+  /**
+   * Gets the number of log entries that HTTP destinations dropped because their queue
+   * was full or their batch could not be delivered
+   * @returns The number of dropped entries
+   */
+  getDroppedLogs(): number {
+    return countDroppedLogs(this.destinations);
+  }
+
+  /**
+   * Logs uncaught exceptions and unhandled rejections as fatal errors, flushes the
+   * logs on termination signals and before the process exits, and then exits
+   * @param options - Exit codes, signals and flush timeout
+   * @returns A function that removes the handlers
+   */
+  installProcessHandlers(options: ProcessHandlerOptions = {}): () => void {
+    const signals = options.signals || ['SIGTERM', 'SIGINT'];
+    const flushTimeout = options.flushTimeout ?? 2000;
+    let exiting = false;
+    let flushedBeforeExit = false;
+
+    const flushAndExit = (code: number): void => {
+      if (options.exit === false) {
+        void this.flush().catch(() => undefined);
+        return;
+      }
+      if (exiting) {
+        return;
+      }
+      exiting = true;
+
+      // The timeout doesn't keep the process alive, so if a flush never settles the
+      // process may exit on its own first, with this code rather than 0
+      process.exitCode = code;
+      const timeout = new Promise<void>(resolve => setTimeout(resolve, flushTimeout).unref());
+      void Promise.race([this.flush().catch(() => undefined), timeout]).then(() => {
+        process.exit(code);
+      });
+    };
+
+    // Both handlers run in the async context of the failure, so the logs keep its trace
+    const onUncaughtException = (error: Error): void => {
+      this.fatal(error, { event: 'uncaughtException' });
+      flushAndExit(options.exitCode ?? 1);
+    };
+    const onUnhandledRejection = (reason: unknown): void => {
+      const error = reason instanceof Error ? reason : new Error(String(reason));
+      this.fatal(error, { event: 'unhandledRejection' });
+      flushAndExit(options.exitCode ?? 1);
+    };
+    const onSignal = (signal: NodeJS.Signals): void => {
+      this.info(`Received ${signal}, shutting down`, { event: 'signal', signal });
+      flushAndExit(options.signalExitCode ?? 0);
+    };
+    // Flushing schedules more work, which would emit beforeExit again
+    const onBeforeExit = (): void => {
+      if (!flushedBeforeExit) {
+        flushedBeforeExit = true;
+        void this.flush().catch(() => undefined);
+      }
+    };
+
+    process.on('uncaughtException', onUncaughtException);
+    process.on('unhandledRejection', onUnhandledRejection);
+    process.on('beforeExit', onBeforeExit);
+    for (const signal of signals) {
+      process.on(signal, onSignal);
+    }
+
+    return () => {
+      process.off('uncaughtException', onUncaughtException);
+      process.off('unhandledRejection', onUnhandledRejection);
+      process.off('beforeExit', onBeforeExit);
+      for (const signal of signals) {
+        process.off(signal, onSignal);
+      }
+    };
+  }
+
   /**
    * Constructs the full URL from request information
    * @param req - Express request object
@@ -222,6 +628,62 @@ export class UnnboundLogger {
     return `${protocol}://${host}${reqUrl}`;
   }
 
+  /**
+   * Gets the header rules for an HTTP log; outgoing Axios calls use the 'outgoing' rules
+   * @param req - Express request object (or the mock request of an outgoing call)
+   * @param kind - Whether the request or the response headers are logged
+   * @returns The configured rules, if any
+   */
+  private getHeaderRules(req: Request, kind: 'request' | 'response'): HeaderRules | undefined {
+    return req.ip === 'outgoing' ? this.headerOptions.outgoing : this.headerOptions[kind];
+  }
+
+  /**
+   * Gets a header value by case-insensitive name
+   * @param headers - Header names and values
+   * @param name - Lower-case header name
+   * @returns The header value, if present
+   */
+  private getHeader(headers: Record<string, any>, name: string): string | undefined {
+    const key = Object.keys(headers || {}).find(header => header.toLowerCase() === name);
+    return key && headers[key] !== undefined ? String(headers[key]) : undefined;
+  }
+
+  /**
+   * Prepares a request or response body for logging according to the body options
+   * @param req - Express request object (or the mock request of an outgoing call)
+   * @param field - Log field holding the body, for the redaction paths
+   * @param body - The raw body
+   * @param contentType - The content-type header of the body
+   * @param totalSize - Size of the full body in bytes, when `body` holds only its beginning
+   * @param partial - Whether `body` holds only the beginning of a body of unknown size
+   * @returns The body to log, or undefined if the route is excluded from body capture
+   */
+  private captureBody(
+    req: Request,
+    field: 'httpRequest' | 'httpResponse',
+    body: unknown,
+    contentType: string | undefined,
+    totalSize?: number,
+    partial?: boolean
+  ): unknown {
+    const route = req.path || req.originalUrl;
+    if (route && this.shouldIgnorePath(route, this.bodyOptions.ignoreRoutes || [])) {
+      return undefined;
+    }
+
+    const options = {
+      maxBytes: this.bodyOptions.maxBytes ?? DEFAULT_MAX_BODY_BYTES,
+      skipContentTypes: this.bodyOptions.skipContentTypes || [],
+    };
+    const { redactor } = this;
+    const redact =
+      redactor &&
+      ((value: unknown): unknown =>
+        typeof value === 'string' ? redactor.text(value) : redactor(value, [field, 'body']));
+    return captureBody(body, contentType, options, totalSize, partial, redact);
+  }
+
   /**
    * Logs an HTTP request
    * @param req - Express request object
@@ -229,42 +691,42 @@ export class UnnboundLogger {
    * @returns The request ID for correlating with the response
    */
   httpRequest(req: Request, options: HttpRequestLogOptions = {}): HttpRequestLog {
-    const logId = uuidv4();
-    const traceId = options.traceId || traceContext.getTraceId() || uuidv4();
-    const requestId = options.requestId || uuidv4();
+    const baseEntry = this.createBaseEntry('httpRequest', options);
     const startTime = options.startTime || Date.now();
+    const bindings = this.getBindings();
 
     // Store request metadata in res.locals for later use
     if (req.res) {
-      req.res.locals.requestId = requestId;
+      req.res.locals.requestId = baseEntry.requestId;
       req.res.locals.startTime = startTime;
-      req.res.locals.traceId = traceId;
-      req.res.locals.workflowId = this.workflowId;
+      req.res.locals.traceId = baseEntry.traceId;
+      req.res.locals.workflowId = baseEntry.workflowId;
       req.res.locals.workflowUrl = this.workflowUrl;
       req.res.locals.serviceId = this.serviceId;
     }
 
     const logEntry: Omit<HttpRequestLog, 'level'> & { [key: string]: any } = {
-      logId,
-      type: 'httpRequest',
+      ...baseEntry,
       message: req.ip === 'outgoing' ? 'Outgoing HTTP Request' : 'Incoming HTTP Request',
-      workflowId: this.workflowId,
-      serviceId: this.serviceId,
-      traceId,
-      requestId,
-      deploymentId: this.deploymentId,
       duration: 0, // Will be updated in response
       httpRequest: {
         url: this.constructFullUrl(req),
         method: req.method,
-        headers: filterHeaders(req.headers),
+        headers: filterHeaders(req.headers, this.getHeaderRules(req, 'request')),
         ip: normalizeIp(req.ip),
-        body: safeJsonParse(req.body),
+        body: this.captureBody(
+          req,
+          'httpRequest',
+          req.body,
+          this.getHeader(req.headers, 'content-type')
+        ),
+        ...(options.attempt !== undefined && { attempt: options.attempt }),
       },
+      ...(bindings && { data: bindings }),
     };
 
     const { message: logMessage, ...logData } = logEntry;
-    this.logger[options.level || 'info'](logData, logMessage);
+    this.write(options.level || 'info', 'httpRequest', logData, logMessage);
     
     return logEntry as unknown as HttpRequestLog;
   }
@@ -276,46 +738,68 @@ export class UnnboundLogger {
    * @param options - Additional logging options
    */
   httpResponse(res: Response, req: Request, options: HttpResponseLogOptions = {}): HttpResponseLog {
-    const logId = uuidv4();
-    const requestId = res.locals.requestId || options.requestId || uuidv4();
+    const baseEntry = this.createBaseEntry('httpResponse', {
+      traceId: (res.locals.traceId as string | undefined) || options.traceId,
+      requestId: (res.locals.requestId as string | undefined) || options.requestId,
+      workflowId: res.locals.workflowId as string | undefined,
+    });
     const startTime = res.locals.startTime || options.startTime || Date.now();
-    const workflowId = res.locals.workflowId || this.workflowId;
-    const serviceId = res.locals.serviceId || this.serviceId;
-    const traceId = res.locals.traceId || options.traceId || traceContext.getTraceId() || uuidv4();
+    const serviceId = (res.locals.serviceId as string | undefined) || this.serviceId;
     const duration = options.duration || (Date.now() - startTime);
+    const bindings = this.getBindings();
+
+    const { outcome } = options;
+    const unfinished = outcome === 'aborted' || outcome === 'timeout';
 
-    // Determine log level based on status code
+    // Determine log level based on outcome and status code
     let level: LogLevel = options.level || 'info';
     if (!options.level) {
       if (res.statusCode >= 400) {
         level = 'error';
+      } else if (unfinished) {
+        level = 'warn';
       } else {
         level = 'info';
       }
     }
 
+    let message = getStatusMessage(res.statusCode);
+    if (outcome === 'aborted') {
+      message = 'Request aborted by client';
+    } else if (outcome === 'timeout') {
+      message = 'Request timed out';
+    }
+
     const logEntry: Omit<HttpResponseLog, 'level'> & { [key: string]: any } = {
-      logId,
-      type: 'httpResponse',
-      message: getStatusMessage(res.statusCode),
-      workflowId: workflowId || '',
-      serviceId: serviceId || '',
-      traceId,
-      requestId,
-      deploymentId: this.deploymentId,
+      ...baseEntry,
+      serviceId,
+      message,
       duration,
       httpResponse: {
         url: this.constructFullUrl(req),
         method: req.method,
-        headers: filterHeaders(res.getHeaders()),
+        headers: filterHeaders(res.getHeaders(), this.getHeaderRules(req, 'response')),
         ip: normalizeIp(req.ip),
         status: res.statusCode,
-        body: safeJsonParse(res.locals.body),
+        body: this.captureBody(
+          req,
+          'httpResponse',
+          res.locals.body,
+          this.getHeader(res.getHeaders(), 'content-type'),
+          res.locals.bodySize as number | undefined,
+          res.locals.bodyPartial as boolean | undefined
+        ),
+        ...(outcome && { outcome }),
+        ...(res.locals.bytesSent !== undefined && {
+          bytesSent: res.locals.bytesSent as number,
+        }),
+        ...(options.attempt !== undefined && { attempt: options.attempt }),
       },
+      ...(bindings && { data: bindings }),
     };
 
     const { message: logMessage, ...logData } = logEntry;
-    this.logger[level](logData, logMessage);
+    this.write(level, 'httpResponse', logData, logMessage);
     
     return logEntry as unknown as HttpResponseLog;
   }
@@ -326,44 +810,141 @@ export class UnnboundLogger {
    * @param options - Additional logging options
    */
   sftpTransaction(
-    operation: {
-      host: string;
-      username: string;
-      operation: 'upload' | 'download' | 'list' | 'delete' | 'rename' | 'stat';
-      path: string;
-      status: 'success' | 'failure';
-      bytesTransferred?: number;
-      filesListed?: number;
-      sourcePath?: string;
-    },
+    operation: SftpOperation,
     options: SftpTransactionLogOptions = {}
   ): SftpTransactionLog {
-    const logId = uuidv4();
-    const traceId = options.traceId || traceContext.getTraceId() || uuidv4();
-    const requestId = options.requestId || uuidv4();
+    const baseEntry = this.createBaseEntry('sftpTransaction', options);
     const duration = options.duration || (options.startTime ? Date.now() - options.startTime : 0);
+    const bindings = this.getBindings();
 
-    const level: LogLevel = operation.status === 'success' ? 'info' : 'error';
+    const level: LogLevel = operation.status === 'failure' ? 'error' : 'info';
 
     const logEntry: Omit<SftpTransactionLog, 'level'> & { [key: string]: any } = {
-      logId,
-      type: 'sftpTransaction',
+      ...baseEntry,
       message: `SFTP ${operation.operation} ${operation.status} - ${operation.path}`,
-      workflowId: this.workflowId,
-      serviceId: this.serviceId,
-      traceId,
-      requestId,
-      deploymentId: this.deploymentId,
       duration,
       sftp: operation,
+      ...(options.error && { error: serializeError(options.error) }),
+      ...(bindings && { data: bindings }),
     };
 
     const { message: logMessage, ...logData } = logEntry;
-    this.logger[level](logData, logMessage);
+    this.write(level, 'sftpTransaction', logData, logMessage);
     
     return logEntry as unknown as SftpTransactionLog;
   }
 
+  /**
+   * Logs every operation of an ssh2-sftp-client instance as an SFTP transaction.
+   * Long transfers also log periodic progress entries.
+   * @param client - The ssh2-sftp-client instance
+   * @param options - Host and user name to log, and the progress interval
+   * @returns A function that removes the instrumentation
+   */
+  instrumentSftp(client: object, options: SftpInstrumentationOptions): () => void {
+    return instrumentSftpClient(client, this.sftpTransaction.bind(this), options);
+  }
+
+  /**
+   * Logs an object storage transaction, e.g. an S3 upload or download
+   * @param operation - Storage operation details
+   * @param options - Additional logging options
+   */
+  storageTransaction(
+    operation: StorageOperation,
+    options: StorageTransactionLogOptions = {}
+  ): StorageTransactionLog {
+    const baseEntry = this.createBaseEntry('storageTransaction', options);
+    const duration = options.duration || (options.startTime ? Date.now() - options.startTime : 0);
+    const bindings = this.getBindings();
+
+    const level: LogLevel = operation.status === 'success' ? 'info' : 'error';
+    const target = operation.key ? `${operation.bucket}/${operation.key}` : operation.bucket;
+
+    const logEntry: Omit<StorageTransactionLog, 'level'> & { [key: string]: any } = {
+      ...baseEntry,
+      message: `Storage ${operation.operation} ${operation.status} - ${target}`,
+      duration,
+      storage: operation,
+      ...(options.error && { error: serializeError(options.error) }),
+      ...(bindings && { data: bindings }),
+    };
+
+    const { message: logMessage, ...logData } = logEntry;
+    this.write(level, 'storageTransaction', logData, logMessage);
+
+    return logEntry as unknown as StorageTransactionLog;
+  }
+
+  /**
+   * Logs every object command of an AWS SDK v3 S3 client (put, get, list, delete,
+   * copy and multipart uploads) as a storage transaction
+   * @param client - The S3Client
+   * @returns A function that removes the instrumentation
+   */
+  instrumentS3(client: StorageClient): () => void {
+    return instrumentStorageClient(client, this.storageTransaction.bind(this));
+  }
+
+  /**
+   * Logs a message queue transaction, e.g. publishing or consuming an SQS, RabbitMQ
+   * or Kafka message
+   * @param operation - Queue operation details
+   * @param options - Additional logging options
+   */
+  queueTransaction(
+    operation: QueueOperation,
+    options: QueueTransactionLogOptions = {}
+  ): QueueTransactionLog {
+    const baseEntry = this.createBaseEntry('queueTransaction', options);
+    const duration = options.duration || (options.startTime ? Date.now() - options.startTime : 0);
+    const bindings = this.getBindings();
+
+    // A rejected message is not a failure of the consumer, but worth noticing
+    const level: LogLevel =
+      operation.status === 'failure' ? 'error' : operation.operation === 'nack' ? 'warn' : 'info';
+    const messageId = operation.messageId ? ` (${operation.messageId})` : '';
+
+    const logEntry: Omit<QueueTransactionLog, 'level'> & { [key: string]: any } = {
+      ...baseEntry,
+      message: `Queue ${operation.operation} ${operation.status} - ${operation.name}${messageId}`,
+      duration,
+      queue: operation,
+      ...(options.error && { error: serializeError(options.error) }),
+      ...(bindings && { data: bindings }),
+    };
+
+    const { message: logMessage, ...logData } = logEntry;
+    this.write(level, 'queueTransaction', logData, logMessage);
+
+    return logEntry as unknown as QueueTransactionLog;
+  }
+
+  /**
+   * Writes the active trace context to the attributes or headers of an outgoing message,
+   * according to the configured trace header mode, so that the consumer can continue
+   * the trace with extractTraceContext
+   * @param carrier - Message attributes or headers to add the trace context to
+   * @param format - 'headers' for RabbitMQ and Kafka headers, 'sqs' for SQS/SNS message attributes
+   * @returns The carrier; unchanged when there is no active trace
+   */
+  injectTraceContext<T extends MessageCarrier>(
+    carrier: T,
+    format: MessageCarrierFormat = 'headers'
+  ): T {
+    return writeCarrierValues(carrier, this.getTraceHeaders(), format);
+  }
+
+  /**
+   * Builds the trace context of a received message from its attributes or headers, to
+   * run its processing in with traceContext.run or withContext
+   * @param carrier - Message attributes or headers, in any format written by injectTraceContext
+   * @returns The trace context, with a new trace ID if the message carries none
+   */
+  extractTraceContext(carrier: MessageCarrier | undefined): TraceContext {
+    return this.readTraceHeaders(name => readCarrierValue(carrier, name));
+  }
+
   /**
    * Logs a database query transaction
    * @param query - Database query details
@@ -372,7 +953,7 @@ export class UnnboundLogger {
   dbQueryTransaction(
     query: {
       instance: string;
-      vendor: 'postgres' | 'mysql' | 'mssql' | 'mongodb';
+      vendor: DbVendor;
       query?: string;
       status: 'success' | 'failure';
       rowsReturned?: number;
@@ -380,32 +961,264 @@ export class UnnboundLogger {
     },
     options: DbQueryTransactionLogOptions = {}
   ): DbQueryTransactionLog {
-    const logId = uuidv4();
-    const traceId = options.traceId || traceContext.getTraceId() || uuidv4();
-    const requestId = options.requestId || uuidv4();
+    const baseEntry = this.createBaseEntry('dbQueryTransaction', options);
     const duration = options.duration || (options.startTime ? Date.now() - options.startTime : 0);
+    const bindings = this.getBindings();
 
     const level: LogLevel = query.status === 'success' ? 'info' : 'error';
+    // The fingerprint is always taken from the sanitized query so that it stays stable
+    const sanitized =
+      query.query !== undefined ? sanitizeQuery(query.query, query.vendor) : undefined;
+    const db = sanitized !== undefined && {
+      query: this.sanitizeQueries ? sanitized : query.query,
+      fingerprint: fingerprintQuery(sanitized),
+    };
 
     const logEntry: Omit<DbQueryTransactionLog, 'level'> & { [key: string]: any } = {
-      logId,
-      type: 'dbQueryTransaction',
+      ...baseEntry,
       message: `DB Query ${query.status} - ${query.vendor}`,
-      workflowId: this.workflowId,
-      serviceId: this.serviceId,
-      traceId,
-      requestId,
-      deploymentId: this.deploymentId,
       duration,
-      db: query,
+      db: { ...query, ...db },
+      ...(options.error && { error: serializeError(options.error) }),
+      ...(bindings && { data: bindings }),
     };
 
     const { message: logMessage, ...logData } = logEntry;
-    this.logger[level](logData, logMessage);
+    this.write(level, 'dbQueryTransaction', logData, logMessage);
     
     return logEntry as unknown as DbQueryTransactionLog;
   }
 
+  /**
+   * Logs every query of a pg Client or Pool as a database query transaction.
+   * Pass pg.Client.prototype to instrument all clients, including pooled ones.
+   * @param target - Client, Pool or pg.Client.prototype
+   * @param options - Instrumentation options
+   * @returns A function that removes the instrumentation
+   */
+  instrumentPg(target: object, options?: DbInstrumentationOptions): () => void {
+    return instrumentPgQueries(target, this.dbQueryTransaction.bind(this), options);
+  }
+
+  /**
+   * Logs every query() and execute() of a mysql2 Connection or Pool, callback or
+   * promise API, as a database query transaction
+   * @param target - Connection, Pool or their prototype
+   * @param options - Instrumentation options
+   * @returns A function that removes the instrumentation
+   */
+  instrumentMysql(target: object, options?: DbInstrumentationOptions): () => void {
+    return instrumentMysqlQueries(target, this.dbQueryTransaction.bind(this), options);
+  }
+
+  /**
+   * Logs every query, batch and stored procedure call of an mssql ConnectionPool
+   * or Request as a database query transaction
+   * @param target - ConnectionPool, Request or sql.Request.prototype
+   * @param options - Instrumentation options
+   * @returns A function that removes the instrumentation
+   */
+  instrumentMssql(target: object, options?: DbInstrumentationOptions): () => void {
+    return instrumentMssqlQueries(target, this.dbQueryTransaction.bind(this), options);
+  }
+
+  /**
+   * Logs every command of a MongoClient as a database query transaction. The client
+   * must be created with monitorCommands: true.
+   * @param client - The MongoClient
+   * @param options - Instrumentation options
+   * @returns A function that removes the instrumentation
+   */
+  instrumentMongo(client: MongoCommandEmitter, options?: DbInstrumentationOptions): () => void {
+    return instrumentMongoCommands(client, this.dbQueryTransaction.bind(this), options);
+  }
+
+  /**
+   * Starts a span for a nested operation. The span's parent is the span active in
+   * the request context, if any. Use span.run() to make it active for nested work,
+   * and span.end() to log it.
+   * @param name - Name of the operation
+   * @param attributes - Initial span attributes
+   * @returns The started span
+   */
+  startSpan(name: string, attributes: Record<string, unknown> = {}): Span {
+    const context = traceContext.getContext();
+    const traceId =
+      context?.traceId || (this.traceHeaderMode === 'w3c' ? generateW3cTraceId() : uuidv4());
+
+    return new Span(
+      {
+        name,
+        traceId,
+        spanId: generateSpanId(),
+        parentSpanId: context?.spanId,
+        attributes,
+      },
+      (span, error) => this.logSpan(span, error)
+    );
+  }
+
+  /**
+   * Runs a function inside a new span and ends the span when the function returns,
+   * or when its returned promise settles. The span ends with status 'error' if the
+   * function throws or the promise rejects.
+   * @param name - Name of the operation
+   * @param fn - Function to run; receives the span to add attributes
+   * @param attributes - Initial span attributes
+   * @returns The return value of the function
+   */
+  withSpan<T>(name: string, fn: (span: Span) => T, attributes: Record<string, unknown> = {}): T {
+    const span = this.startSpan(name, attributes);
+    const fail = (error: unknown): never => {
+      span.end('error', error instanceof Error ? error : undefined);
+      throw error;
+    };
+
+    let result: T;
+    try {
+      result = span.run(() => fn(span));
+    } catch (error) {
+      return fail(error);
+    }
+
+    if (result instanceof Promise) {
+      return result.then((value: unknown) => {
+        span.end('ok');
+        return value;
+      }, fail) as T;
+    }
+
+    span.end('ok');
+    return result;
+  }
+
+  /**
+   * Logs a span that has ended
+   * @param span - The ended span
+   * @param error - Optional error that caused a failure
+   */
+  private logSpan(span: Span, error?: Error): SpanLog {
+    const endTime = span.endTime ?? Date.now();
+    const status = span.status ?? 'ok';
+
+    return span.run(() => {
+      const baseEntry = this.createBaseEntry('general');
+      const bindings = this.getBindings();
+
+      const logEntry: Omit<SpanLog, 'level'> & { [key: string]: any } = {
+        ...baseEntry,
+        message: `Span ${span.name} ${status}`,
+        duration: endTime - span.startTime,
+        span: {
+          name: span.name,
+          spanId: span.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          startTime: span.startTime,
+          endTime,
+          status,
+          attributes: span.attributes,
+        },
+        ...(error && { error: serializeError(error) }),
+        ...(bindings && { data: bindings }),
+      };
+
+      const { message: logMessage, ...logData } = logEntry;
+      this.write(status === 'ok' ? 'info' : 'error', 'general', logData, logMessage);
+
+      return logEntry as unknown as SpanLog;
+    });
+  }
+
+  /**
+   * Builds the trace context for an incoming request from its trace headers,
+   * according to the configured trace header mode
+   * @param getHeader - Reads a header value by name
+   * @returns The trace context, with a new trace ID if no valid header was found
+   */
+  private readTraceHeaders(getHeader: (name: string) => string | undefined): TraceContext {
+    const useCustom = this.traceHeaderMode !== 'w3c';
+    const useW3c = this.traceHeaderMode !== 'custom';
+
+    const traceParent = useW3c ? parseTraceParent(getHeader(TRACEPARENT_HEADER)) : undefined;
+    const traceId =
+      (useCustom && getHeader(this.traceHeaderKey)) ||
+      traceParent?.traceId ||
+      (useW3c && !useCustom ? generateW3cTraceId() : uuidv4());
+
+    if (!useW3c) {
+      return { traceId };
+    }
+
+    // The parent span only applies when it belongs to the same trace
+    const sameTrace = traceParent && toW3cTraceId(traceId) === traceParent.traceId;
+    const traceState = sameTrace ? getHeader(TRACESTATE_HEADER) : undefined;
+
+    return {
+      traceId,
+      spanId: generateSpanId(),
+      ...(sameTrace && { parentSpanId: traceParent.parentId, traceFlags: traceParent.traceFlags }),
+      ...(traceState && { traceState }),
+    };
+  }
+
+  /**
+   * Replaces the trace of an incoming request with the active OpenTelemetry span, when
+   * the bridge is enabled and HTTP instrumentation has already started a server span.
+   * The request's logs, the response headers and the logs inside the request then all
+   * carry the OpenTelemetry trace ID.
+   * @param context - The trace context read from the request headers
+   * @returns The trace context of the request
+   */
+  private adoptOtelSpan(context: TraceContext): TraceContext {
+    const otelSpan = this.otel?.getActiveSpanContext();
+    if (!otelSpan) {
+      return context;
+    }
+    return {
+      traceId: otelSpan.traceId,
+      spanId: otelSpan.spanId,
+      traceFlags: otelSpan.traceFlags.toString(16).padStart(2, '0'),
+      // The incoming tracestate only applies when the span continues the same trace
+      ...(context.traceState &&
+        toW3cTraceId(context.traceId) === otelSpan.traceId && { traceState: context.traceState }),
+    };
+  }
+
+  /**
+   * Gets the trace headers to send with an outgoing call, according to the
+   * configured trace header mode
+   * @param context - Trace context to propagate (default: the active request context)
+   * @returns Header names and values; empty when there is no active trace
+   */
+  private getTraceHeaders(
+    context: LogContext | undefined = traceContext.getContext()
+  ): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (!context?.traceId) {
+      return headers;
+    }
+
+    if (this.traceHeaderMode !== 'w3c') {
+      headers[this.traceHeaderKey] = context.traceId;
+    }
+
+    if (this.traceHeaderMode !== 'custom') {
+      const traceParent = formatTraceParent(
+        context.traceId,
+        context.spanId || generateSpanId(),
+        context.traceFlags
+      );
+      if (traceParent) {
+        headers[TRACEPARENT_HEADER] = traceParent;
+        if (context.traceState) {
+          headers[TRACESTATE_HEADER] = context.traceState;
+        }
+      }
+    }
+
+    return headers;
+  }
+
   // Trace middleware
   public traceMiddleware = (req: Request, res: Response, next: NextFunction): void => {
     // Check if the route should be ignored
@@ -413,12 +1226,19 @@ export class UnnboundLogger {
       return next();
     }
 
-    const traceId = req.header(this.traceHeaderKey) || uuidv4();
-    res.setHeader(this.traceHeaderKey, traceId);
+    const context = this.adoptOtelSpan(this.readTraceHeaders(name => req.header(name)));
+    const { traceId } = context;
+    const requestId = uuidv4();
+
+    // Echo the trace headers on the response
+    for (const [name, value] of Object.entries(this.getTraceHeaders(context))) {
+      res.setHeader(name, value);
+    }
     
-    traceContext.run(traceId, () => {
+    const requestContext = { ...context, requestId };
+    traceContext.run(requestContext, () => {
       // Log the incoming request
-      const reqLog = this.httpRequest(req, { traceId });
+      const reqLog = this.httpRequest(req, { traceId, requestId });
 
       // Capture response body for logging
       const originalSend = res.send;
@@ -427,15 +1247,109 @@ export class UnnboundLogger {
         return originalSend.call(this, body);
       };
 
-      // Log the response when it finishes
-      res.on('finish', () => {
-        this.httpResponse(res, req, { requestId: reqLog.requestId, traceId });
+      // Capture bodies written directly or piped (res.write / res.end, streams, sendFile)
+      const collector = new BodyCollector(this.bodyOptions.maxBytes ?? DEFAULT_MAX_BODY_BYTES);
+      if (typeof res.write === 'function') {
+        const originalWrite = res.write.bind(res);
+        res.write = function(...args: unknown[]) {
+          collector.add(args[0], args[1]);
+          return originalWrite(...(args as Parameters<Response['write']>));
+        } as Response['write'];
+      }
+      if (typeof res.end === 'function') {
+        const originalEnd = res.end.bind(res);
+        res.end = function(...args: unknown[]) {
+          collector.add(args[0], args[1]);
+          return originalEnd(...(args as Parameters<Response['end']>));
+        } as Response['end'];
+      }
+
+      // Listens on the socket: a 'timeout' listener on the request or response would keep
+      // Node from destroying the timed-out socket, i.e. disable server.setTimeout()
+      let timedOut = false;
+      const { socket } = req;
+      const onTimeout = (): void => {
+        timedOut = true;
+      };
+      socket?.on('timeout', onTimeout);
+
+      // Log the response once, in the request context since listeners run in the
+      // context of whatever emits the event. 'close' without 'finish' means the
+      // connection ended before the response was complete.
+      let logged = false;
+      const logResponse = (outcome: HttpResponseOutcome): void => {
+        if (logged) {
+          return;
+        }
+        logged = true;
+        // Keep-alive sockets go on to serve other requests
+        socket?.off('timeout', onTimeout);
+
+        if (res.locals.body === undefined) {
+          res.locals.body = collector.getBody(this.getHeader(res.getHeaders(), 'content-type'));
+          res.locals.bodySize = collector.bytesSent;
+        }
+        res.locals.bytesSent = collector.bytesSent;
+
+        traceContext.run(requestContext, () => {
+          this.httpResponse(res, req, { requestId: reqLog.requestId, traceId, outcome });
+        });
+      };
+
+      res.on('finish', () => logResponse('completed'));
+      res.on('close', () => {
+        const timedOutByMiddleware = (req as Request & { timedout?: boolean }).timedout;
+        logResponse(timedOut || timedOutByMiddleware ? 'timeout' : 'aborted');
       });
 
       next();
     });
   };
 
+  /**
+   * Creates an Express error-handling middleware that logs the error with the
+   * request's traceId and requestId and the route it was thrown in
+   * @param options - Whether to pass the error on or respond with a JSON error body
+   * @returns The 4-argument Express error middleware
+   */
+  createErrorMiddleware(options: ErrorMiddlewareOptions = {}): ErrorRequestHandler {
+    return (err: unknown, req: Request, res: Response, next: NextFunction): void => {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const traceId = (res.locals.traceId as string | undefined) || traceContext.getTraceId();
+      const requestId =
+        (res.locals.requestId as string | undefined) || traceContext.getContext()?.requestId;
+      const route = req.route as { path?: string } | undefined;
+
+      this.error(error, {
+        traceId,
+        requestId,
+        route: {
+          method: req.method,
+          url: this.constructFullUrl(req),
+          path: route?.path ?? req.path,
+        },
+      });
+
+      // Express must handle errors raised after the response has started
+      if (!options.respond || res.headersSent) {
+        return next(err);
+      }
+
+      const errorStatus = (err as { status?: unknown; statusCode?: unknown }) || {};
+      const candidate = Number(errorStatus.status ?? errorStatus.statusCode);
+      const status = candidate >= 400 && candidate < 600 ? candidate : 500;
+
+      res.status(status).json({
+        error: httpStatusDetails[status]?.message || 'Error',
+        ...(requestId && { requestId }),
+        ...(traceId && { traceId }),
+      });
+    };
+  }
+
+  // Express error middleware that logs the error and passes it on to the next error handler
+  public errorMiddleware: ErrorRequestHandler = this.createErrorMiddleware();
+
   // Axios trace middleware
   public axiosTraceMiddleware = {
     onFulfilled: (config: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
@@ -445,16 +1359,22 @@ export class UnnboundLogger {
       }
 
       const traceId = traceContext.getTraceId();
-      if (traceId) {
+      const traceHeaders = this.getTraceHeaders();
+      if (Object.keys(traceHeaders).length > 0) {
         const headers = new AxiosHeaders(config.headers);
-        headers.set(this.traceHeaderKey, traceId);
+        for (const [name, value] of Object.entries(traceHeaders)) {
+          headers.set(name, value);
+        }
         config.headers = headers;
       }
 
-      // Store request start time and generate requestId for duration calculation and correlation
+      // Store request start time and generate requestId for duration calculation and correlation.
+      // Retries (axios-retry) resend the same config, so they keep the first attempt's requestId.
       const startTime = Date.now();
-      const requestId = uuidv4();
-      config.metadata = { startTime, requestId };
+      const retryCount = getAxiosRetryCount(config);
+      const requestId = (retryCount && config.metadata?.requestId) || uuidv4();
+      const attempt = retryCount === undefined ? undefined : retryCount + 1;
+      config.metadata = { startTime, requestId, attempt };
       
       // Log the outgoing request using proper httpRequest method
       const mockReq = {
@@ -472,7 +1392,8 @@ export class UnnboundLogger {
       this.httpRequest(mockReq, { 
         traceId,
         requestId,
-        startTime 
+        startTime,
+        attempt,
       });
 
       return config;
@@ -494,6 +1415,7 @@ export class UnnboundLogger {
       // Calculate duration
       const startTime = response.config.metadata?.startTime || Date.now();
       const requestId = response.config.metadata?.requestId;
+      const attempt = (response as AxiosResponse).config.metadata?.attempt;
       const duration = Date.now() - startTime;
       
       // Log the successful response using proper httpResponse method
@@ -521,7 +1443,8 @@ export class UnnboundLogger {
       this.httpResponse(mockRes, mockReq, {
         requestId,
         duration,
-        traceId: traceContext.getTraceId()
+        traceId: traceContext.getTraceId(),
+        attempt,
       });
       
       return response;
@@ -536,6 +1459,7 @@ export class UnnboundLogger {
       // Calculate duration for error responses
       const startTime = error.config?.metadata?.startTime || Date.now();
       const requestId = error.config?.metadata?.requestId;
+      const attempt = (error as AxiosError).config?.metadata?.attempt;
       const duration = Date.now() - startTime;
       
       // Log the error response using proper httpResponse method
@@ -564,7 +1488,8 @@ export class UnnboundLogger {
         this.httpResponse(mockRes, mockReq, {
           requestId,
           duration,
-          traceId: traceContext.getTraceId()
+          traceId: traceContext.getTraceId(),
+          attempt,
         });
       } else {
         // For network errors without response, log as general error
@@ -573,6 +1498,7 @@ export class UnnboundLogger {
             reason: 'No response received',
             method: error.config?.method?.toUpperCase() || 'UNKNOWN',
             url: `${error.config?.baseURL || ''}${error.config?.url}`,
+            attempt,
           },
           error: error.message,
           requestId,
@@ -583,4 +1509,138 @@ export class UnnboundLogger {
       return Promise.reject(error);
     }
   };
+  /**
+   * Registers the request and response interceptors on an Axios instance
+   * @param instance - The Axios instance to instrument (default: the global axios instance)
+   * @returns A function that removes both interceptors
+   */
+  instrumentAxios(instance: Pick<AxiosInstance, 'interceptors'> = axios): () => void {
+    const requestInterceptor = instance.interceptors.request.use(
+      this.axiosTraceMiddleware.onFulfilled,
+      this.axiosTraceMiddleware.onRejected
+    );
+    const responseInterceptor = instance.interceptors.response.use(
+      this.axiosResponseInterceptor.onFulfilled,
+      this.axiosResponseInterceptor.onRejected
+    );
+
+    return () => {
+      instance.interceptors.request.eject(requestInterceptor);
+      instance.interceptors.response.eject(responseInterceptor);
+    };
+  }
+
+  /**
+   * Wraps a fetch function so that every call carries the trace headers and is
+   * logged as an outgoing httpRequest / httpResponse, like Axios calls
+   * @param fetchImpl - The fetch function to wrap (default: the global fetch)
+   * @returns An instrumented fetch with the same signature
+   */
+  wrapFetch(fetchImpl: typeof fetch = globalThis.fetch): typeof fetch {
+    return async (input, init) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+      if (this.shouldIgnoreUrl(url, this.ignoreFetchTraceRoutes)) {
+        return fetchImpl(input, init);
+      }
+
+      const request = input instanceof globalThis.Request ? input : undefined;
+      const method = (init?.method || request?.method || 'GET').toUpperCase();
+      const headers = new Headers(init?.headers ?? request?.headers);
+      for (const [name, value] of Object.entries(this.getTraceHeaders())) {
+        headers.set(name, value);
+      }
+
+      const traceId = traceContext.getTraceId();
+      const startTime = Date.now();
+      const requestId = uuidv4();
+      const body = init?.body ?? request?.body;
+
+      // Log the outgoing request using proper httpRequest method
+      const mockReq = {
+        method,
+        url,
+        originalUrl: url,
+        headers: Object.fromEntries(headers),
+        body: body instanceof URLSearchParams ? body.toString() : body,
+        ip: 'outgoing', // Mark as outgoing request
+        protocol: 'https', // Default for outgoing
+        secure: true,
+        get: () => undefined // Mock get method for constructFullUrl
+      } as unknown as Request;
+
+      this.httpRequest(mockReq, { traceId, requestId, startTime });
+
+      let response: globalThis.Response;
+      try {
+        response = await fetchImpl(input, { ...init, headers });
+      } catch (error) {
+        // For network errors without response, log as general error
+        this.error('HTTP Request Failed', {
+          context: { reason: 'No response received', method, url },
+          error: error instanceof Error ? error.message : String(error),
+          requestId,
+          traceId,
+        });
+        throw error;
+      }
+
+      const duration = Date.now() - startTime;
+      const logResponse = (
+        responseBody: unknown,
+        bodySize?: number,
+        bodyPartial?: boolean
+      ): void => {
+        const mockRes = {
+          statusCode: response.status,
+          locals: { body: responseBody, bodySize, bodyPartial, startTime, traceId, requestId },
+          getHeaders: () => Object.fromEntries(response.headers),
+        } as unknown as Response;
+
+        this.httpResponse(mockRes, mockReq, { requestId, duration, traceId });
+      };
+
+      // Text bodies are read from a clone so the caller can still consume the response, and
+      // only up to maxBytes; the response is logged once they have been read, without
+      // delaying the caller. Event streams may never end and are not read at all.
+      const contentType = response.headers.get('content-type');
+      if (
+        response.body &&
+        contentType &&
+        isTextContentType(contentType) &&
+        !isStreamingContentType(contentType)
+      ) {
+        const contentLength = Number(response.headers.get('content-length')) || undefined;
+        void readStreamStart(
+          response.clone().body as ReadableStream<Uint8Array>,
+          this.bodyOptions.maxBytes ?? DEFAULT_MAX_BODY_BYTES
+        ).then(
+          ({ body: bodyStart, complete }) =>
+            complete
+              ? logResponse(bodyStart.toString())
+              : logResponse(bodyStart.toString(), contentLength, true),
+          () => logResponse(undefined)
+        );
+      } else {
+        logResponse(response.body);
+      }
+
+      return response;
+    };
+  }
+
+  /**
+   * Replaces the global fetch with an instrumented one (see wrapFetch)
+   * @returns A function that restores the original global fetch
+   */
+  instrumentFetch(): () => void {
+    const originalFetch = globalThis.fetch;
+    const instrumentedFetch = this.wrapFetch(originalFetch);
+    globalThis.fetch = instrumentedFetch;
+
+    return () => {
+      if (globalThis.fetch === instrumentedFetch) {
+        globalThis.fetch = originalFetch;
+      }
+    };
+  }
 }
@@ -0,0 +1,272 @@
+/**
+ * Utility functions for capturing HTTP bodies in logs
+ */
+import { safeJsonParse } from './logger-utils';
+
+/**
+ * Default maximum size of a logged body, well below CloudWatch's 256 KB event limit
+ */
+export const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Content types whose bodies are never logged; '/*' matches any subtype
+ */
+const DEFAULT_SKIP_CONTENT_TYPES = [
+  'multipart/*',
+  'application/octet-stream',
+  'application/pdf',
+  'application/zip',
+  'application/gzip',
+  'image/*',
+  'audio/*',
+  'video/*',
+  'font/*',
+];
+
+/**
+ * Content types of responses that stream indefinitely and are never read for logging
+ */
+const STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson'];
+
+/**
+ * Body capture settings
+ */
+export interface BodyCaptureOptions {
+  /** Maximum serialized body size in bytes */
+  maxBytes: number;
+  /** Additional content types whose bodies are not logged */
+  skipContentTypes: string[];
+}
+
+/**
+ * Checks whether a content type matches any of the given patterns
+ * @param contentType - Content type, possibly with parameters, e.g. 'text/plain; charset=utf-8'
+ * @param patterns - Content types, where 'type/*' matches any subtype
+ * @returns boolean indicating if the content type matches
+ */
+function matchesContentType(contentType: string, patterns: string[]): boolean {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return patterns.some(pattern => {
+    const normalized = pattern.toLowerCase();
+    return normalized.endsWith('/*')
+      ? mediaType.startsWith(normalized.slice(0, -1))
+      : mediaType === normalized;
+  });
+}
+
+/**
+ * Checks whether a value is a Node.js or web readable stream
+ * @param value - The value to check
+ * @returns boolean indicating if the value is a stream
+ */
+function isStream(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (typeof (value as { pipe?: unknown }).pipe === 'function' ||
+      typeof (value as { getReader?: unknown }).getReader === 'function')
+  );
+}
+
+/**
+ * Gets the size of a binary body (Buffer, ArrayBuffer, typed array or Blob)
+ * @param value - The value to check
+ * @returns The size in bytes, or undefined if the value is not binary
+ */
+function getBinarySize(value: unknown): number | undefined {
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  // Blob and FormData are only global from Node 18
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return value.size;
+  }
+  return undefined;
+}
+
+/**
+ * Prepares an HTTP body for logging. Binary and multipart bodies are replaced by a
+ * summary, streams are summarised without being read, and bodies larger than
+ * maxBytes are truncated with `truncated: true` and their `originalSize`.
+ * @param body - The raw body
+ * @param contentType - The content-type header of the body, if known
+ * @param options - Body capture settings
+ * @param totalSize - Size of the full body in bytes, when `body` holds only its beginning
+ * @param partial - Whether `body` holds only the beginning of a body of unknown size; it
+ * is then logged as truncated, without an `originalSize` unless `totalSize` is known
+ * @param redact - Redacts the parsed body, or its text if it isn't JSON, before it is truncated
+ * @returns The body to log
+ */
+export function captureBody(
+  body: unknown,
+  contentType: string | undefined,
+  options: BodyCaptureOptions,
+  totalSize?: number,
+  partial = false,
+  redact?: (body: unknown) => unknown
+): unknown {
+  if (body === undefined || body === null) {
+    return body;
+  }
+
+  if (isStream(body)) {
+    return { stream: true, ...(contentType && { contentType }) };
+  }
+
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return { omitted: true, contentType: contentType || 'multipart/form-data' };
+  }
+
+  const binarySize = getBinarySize(body);
+  if (
+    binarySize !== undefined ||
+    (contentType &&
+      matchesContentType(contentType, [...DEFAULT_SKIP_CONTENT_TYPES, ...options.skipContentTypes]))
+  ) {
+    return {
+      omitted: true,
+      ...(contentType && { contentType }),
+      ...(binarySize !== undefined && { originalSize: totalSize ?? binarySize }),
+    };
+  }
+
+  let serialized: string | undefined;
+  try {
+    serialized = typeof body === 'string' ? body : JSON.stringify(body);
+  } catch {
+    // Unserializable bodies are left to the logger's own serializer
+    return body;
+  }
+
+  const originalSize = Math.max(
+    serialized === undefined ? 0 : Buffer.byteLength(serialized),
+    totalSize ?? 0
+  );
+  if (originalSize <= options.maxBytes && !partial) {
+    return safeJsonParse(body);
+  }
+
+  // Redaction rules can't reach into the preview string, so they are applied first
+  let preview = serialized;
+  if (redact) {
+    const redacted = redact(safeJsonParse(body));
+    preview = typeof redacted === 'string' ? redacted : JSON.stringify(redacted);
+  }
+  return {
+    truncated: true,
+    ...((!partial || totalSize !== undefined) && { originalSize }),
+    preview: Buffer.from(preview).subarray(0, options.maxBytes).toString(),
+  };
+}
+
+/**
+ * Checks whether a content type holds text that can be logged as a string
+ * @param contentType - Content type, possibly with parameters
+ * @returns boolean indicating if the content type is textual
+ */
+export function isTextContentType(contentType: string): boolean {
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  return (
+    mediaType.startsWith('text/') ||
+    /^application\/(json|xml|javascript|x-www-form-urlencoded)$/.test(mediaType) ||
+    /\+(json|xml)$/.test(mediaType)
+  );
+}
+
+/**
+ * Checks whether a content type is a response stream that may never end, such as
+ * server-sent events
+ * @param contentType - Content type, possibly with parameters
+ * @returns boolean indicating if the content type is streamed
+ */
+export function isStreamingContentType(contentType: string): boolean {
+  return matchesContentType(contentType, STREAMING_CONTENT_TYPES);
+}
+
+/**
+ * Reads the beginning of a web stream, such as the clone of a fetch response body,
+ * keeping at most maxBytes + 1 bytes in memory. The stream is cancelled once more
+ * than maxBytes have been read, so the rest of the body is not downloaded for logging.
+ * @param stream - The stream to read
+ * @param maxBytes - Maximum number of bytes to log
+ * @returns The bytes read, and whether the stream was read to its end
+ */
+export async function readStreamStart(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<{ body: Buffer; complete: boolean }> {
+  const reader = stream.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (size <= maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { body: Buffer.concat(chunks), complete: true };
+    }
+    // Copies the kept bytes, so that a large chunk is not retained
+    const kept = Buffer.from(value.subarray(0, maxBytes + 1 - size));
+    chunks.push(kept);
+    size += kept.length;
+  }
+  await reader.cancel();
+  return { body: Buffer.concat(chunks), complete: false };
+}
+
+/**
+ * Collects the chunks written with res.write / res.end, keeping at most maxBytes
+ * of them in memory while counting every byte sent
+ */
+export class BodyCollector {
+  /** Total number of body bytes written */
+  bytesSent = 0;
+  private chunks: Buffer[] = [];
+  private capturedBytes = 0;
+  private binary = false;
+
+  /**
+   * Creates a new BodyCollector
+   * @param maxBytes - Maximum number of bytes kept for logging
+   */
+  constructor(private readonly maxBytes: number) {}
+
+  /**
+   * Records a chunk passed to res.write or res.end
+   * @param chunk - The chunk; anything other than a string or byte array is ignored
+   * @param encoding - Encoding of string chunks
+   */
+  add(chunk: unknown, encoding?: unknown): void {
+    let buffer: Buffer;
+    if (typeof chunk === 'string') {
+      buffer = Buffer.from(
+        chunk,
+        Buffer.isEncoding(String(encoding)) ? (encoding as BufferEncoding) : 'utf8'
+      );
+    } else if (chunk instanceof Uint8Array) {
+      buffer = Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+      this.binary = true;
+    } else {
+      return;
+    }
+
+    this.bytesSent += buffer.length;
+    if (this.capturedBytes < this.maxBytes) {
+      const kept = buffer.subarray(0, this.maxBytes - this.capturedBytes);
+      this.chunks.push(kept);
+      this.capturedBytes += kept.length;
+    }
+  }
+
+  /**
+   * Gets the collected body: a string for text, a Buffer for binary data
+   * @param contentType - The content-type header of the response
+   * @returns The collected body, or undefined if nothing was written
+   */
+  getBody(contentType: string | undefined): string | Buffer | undefined {
+    if (this.bytesSent === 0) {
+      return undefined;
+    }
+    const body = Buffer.concat(this.chunks);
+    const isText = contentType ? isTextContentType(contentType) : !this.binary;
+    return isText ? body.toString() : body;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Utility functions for building log destinations
+ */
+import fs from 'fs';
+import pino from 'pino';
+import { DestinationOptions, FileRotationOptions, LogFormat, LogType } from '../types';
+import { HttpShipper } from './http-shipper';
+import { PrettyEntry, formatPretty } from './pretty';
+
+/**
+ * Default number of rotated files kept by a rotating file destination
+ */
+export const DEFAULT_MAX_ROTATED_FILES = 5;
+
+/**
+ * Symbol that makes Pino's multistream pass the logged object to a stream
+ */
+const metadata = Symbol.for('pino.metadata');
+
+/**
+ * Key of the log type on entries whose schema has no top-level `type` field
+ */
+export const LOG_TYPE = Symbol('unnbound.logType');
+
+/**
+ * The logged object, as passed to streams by Pino's multistream
+ */
+type LoggedObject = { type?: string; [LOG_TYPE]?: string };
+
+/**
+ * A destination stream that may support flushing
+ */
+type FlushableStream = pino.DestinationStream & {
+  flush?: (cb: (err?: Error) => void) => void;
+  flushSync?: () => void;
+};
+
+/**
+ * A Pino multistream entry and the output behind its log type filter
+ */
+export interface Destination extends pino.StreamEntry {
+  output: FlushableStream;
+}
+
+/**
+ * A file destination that rotates by size: when the next line would exceed maxSize,
+ * <path>.1 … <path>.<maxFiles - 1> are shifted up, the file becomes <path>.1 and a
+ * new file is started.
+ */
+class RotatingFileStream {
+  private file: ReturnType<typeof pino.destination>;
+  private size: number;
+
+  constructor(
+    private path: string,
+    private rotation: FileRotationOptions
+  ) {
+    this.file = pino.destination({ dest: path, mkdir: true, sync: true });
+    this.size = fs.existsSync(path) ? fs.statSync(path).size : 0;
+  }
+
+  write(line: string): boolean {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.rotation.maxSize) {
+      this.rotate();
+    }
+    this.size += bytes;
+    return this.file.write(line);
+  }
+
+  flush(cb: (err?: Error) => void): void {
+    this.file.flush(cb);
+  }
+
+  flushSync(): void {
+    this.file.flushSync();
+  }
+
+  private rotate(): void {
+    const maxFiles = this.rotation.maxFiles ?? DEFAULT_MAX_ROTATED_FILES;
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${this.path}.${i}`)) {
+        fs.renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+      }
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(this.path, `${this.path}.1`);
+    } else {
+      fs.rmSync(this.path);
+    }
+    this.file.reopen();
+    this.size = 0;
+  }
+}
+
+/**
+ * Wraps a stream with a different write function, passing flushes through
+ * @param stream - The destination stream
+ * @param write - Write function of the wrapper
+ * @returns The wrapping stream
+ */
+function wrapStream(
+  stream: FlushableStream,
+  write: (this: { lastObj?: LoggedObject }, line: string) => void
+): FlushableStream {
+  return {
+    write,
+    flush(cb: (err?: Error) => void): void {
+      if (stream.flush) {
+        stream.flush(cb);
+      } else {
+        cb();
+      }
+    },
+    flushSync(): void {
+      stream.flushSync?.();
+    },
+  };
+}
+
+/**
+ * Wraps a stream so that only entries of the given log types are written to it
+ * @param stream - The destination stream
+ * @param types - Log types to write
+ * @returns The filtering stream
+ */
+function filterTypes(stream: FlushableStream, types: LogType[]): FlushableStream {
+  const allowed = new Set<string>(types);
+  // Pino's multistream sets lastObj to the logged object before each write
+  return Object.assign(
+    wrapStream(stream, function (line) {
+      if (allowed.has(this.lastObj?.[LOG_TYPE] ?? this.lastObj?.type ?? '')) {
+        stream.write(line);
+      }
+    }),
+    { [metadata]: true }
+  );
+}
+
+/**
+ * Wraps a stream so that entries are written in the human-readable format.
+ * Colours are disabled by the NO_COLOR environment variable.
+ * @param stream - The destination stream
+ * @returns The formatting stream
+ */
+function prettify(stream: FlushableStream): FlushableStream {
+  const colors = !process.env.NO_COLOR;
+  return wrapStream(stream, line => {
+    stream.write(formatPretty(JSON.parse(line) as PrettyEntry, colors));
+  });
+}
+
+/**
+ * Creates the stream of a single destination
+ * @param destination - Destination options
+ * @param format - Output format of stdout and stderr
+ * @returns The destination stream
+ */
+function createStream(destination: DestinationOptions, format: LogFormat): FlushableStream {
+  switch (destination.type) {
+    case 'stdout':
+    case 'stderr': {
+      const stream = pino.destination({ dest: destination.type === 'stdout' ? 1 : 2, sync: true });
+      return format === 'pretty' ? prettify(stream) : stream;
+    }
+    case 'file':
+      if (!destination.path) {
+        throw new Error('File destinations require a path');
+      }
+      return destination.rotate
+        ? new RotatingFileStream(destination.path, destination.rotate)
+        : pino.destination({ dest: destination.path, mkdir: true, sync: true });
+    case 'stream':
+      if (!destination.stream) {
+        throw new Error('Stream destinations require a stream');
+      }
+      return destination.stream as FlushableStream;
+    case 'transport':
+      if (!destination.target) {
+        throw new Error('Transport destinations require a target');
+      }
+      return pino.transport({
+        target: destination.target,
+        options: destination.options,
+      }) as FlushableStream;
+    case 'http':
+      if (!destination.url) {
+        throw new Error('HTTP destinations require a url');
+      }
+      return new HttpShipper(destination.url, destination.headers, destination.batch);
+    default:
+      throw new Error(`Invalid destination type: ${String(destination.type)}`);
+  }
+}
+
+/**
+ * Creates Pino multistream entries for the configured destinations
+ * @param destinations - Destination options
+ * @param format - Output format of stdout and stderr destinations (default: 'json')
+ * @returns One stream entry per destination, with its minimum level
+ */
+export function createDestinations(
+  destinations: DestinationOptions[],
+  format: LogFormat = 'json'
+): Destination[] {
+  return destinations.map(destination => {
+    const output = createStream(destination, format);
+    return {
+      level: destination.level || 'debug',
+      stream: destination.types ? filterTypes(output, destination.types) : output,
+      output,
+    };
+  });
+}
+
+/**
+ * Flushes a destination, if its output supports flushing
+ * @param destination - The destination
+ * @returns A promise that resolves once the output has been flushed
+ */
+export function flushDestination({ output }: Destination): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (typeof output.flush === 'function') {
+      output.flush(err => (err ? reject(err) : resolve()));
+    } else {
+      resolve();
+    }
+  });
+}
+
+/**
+ * Counts the log entries that HTTP destinations dropped rather than shipped
+ * @param destinations - The destinations
+ * @returns The number of dropped entries
+ */
+export function countDroppedLogs(destinations: Destination[]): number {
+  return destinations.reduce(
+    (count, { output }) => count + (output instanceof HttpShipper ? output.dropped : 0),
+    0
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Destination that ships batches of log entries to an HTTP endpoint
+ */
+import http from 'http';
+import https from 'https';
+import { DropPolicy, HttpBatchOptions } from '../types';
+
+/**
+ * Default batching, retry and queueing settings
+ */
+export const DEFAULT_HTTP_BATCH_OPTIONS: Required<HttpBatchOptions> = {
+  maxBatchSize: 100,
+  flushInterval: 5000,
+  maxQueueSize: 10000,
+  dropPolicy: 'oldest',
+  maxRetries: 3,
+  retryDelay: 1000,
+  timeout: 10000,
+};
+
+/**
+ * Error for a request that was answered with a non-2xx status
+ */
+class HttpStatusError extends Error {
+  constructor(public status: number) {
+    super(`Log endpoint responded with status ${status}`);
+  }
+}
+
+/**
+ * Checks whether a failed request should be retried. Network errors, timeouts,
+ * 429 and 5xx responses are retried; other responses would fail again.
+ * @param error - The request error
+ * @returns boolean indicating if the request should be retried
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof HttpStatusError)) {
+    return true;
+  }
+  return error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Collects log lines in a bounded queue and POSTs them to an endpoint as JSON arrays.
+ * A batch is sent once it is full or flushInterval after its first entry was queued.
+ * Entries that are dropped because the queue is full, or whose batch still failed after
+ * all retries, are counted in `dropped`. Entries still waiting for the flush interval when
+ * the process runs out of work are sent on `beforeExit`.
+ */
+export class HttpShipper {
+  /** Number of entries that were dropped rather than shipped */
+  dropped = 0;
+  private options: Required<HttpBatchOptions>;
+  private queue: string[] = [];
+  private timer?: NodeJS.Timeout;
+  private sending?: Promise<void>;
+  private onBeforeExit = (): void => void this.send();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    options: HttpBatchOptions = {}
+  ) {
+    this.options = { ...DEFAULT_HTTP_BATCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Queues a serialized log entry
+   * @param line - JSON log line
+   */
+  write(line: string): void {
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.dropped++;
+      if (this.drop(this.options.dropPolicy)) {
+        return;
+      }
+    }
+
+    this.queue.push(line.trim());
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.send();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Sends every queued entry, including batches that are being retried
+   * @param cb - Called once the queue is empty
+   */
+  flush(cb: (err?: Error) => void): void {
+    this.drain().then(() => cb(), cb);
+  }
+
+  /**
+   * Makes room for a new entry in a full queue
+   * @param policy - Which entry to drop
+   * @returns boolean indicating if the new entry is the one dropped
+   */
+  private drop(policy: DropPolicy): boolean {
+    if (policy === 'newest') {
+      return true;
+    }
+    this.queue.shift();
+    return false;
+  }
+
+  /**
+   * Starts the flush timer, unless it is running or a batch is being sent
+   */
+  private schedule(): void {
+    if (this.timer || this.sending || this.queue.length === 0) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.send(), this.options.flushInterval);
+    // Pending logs alone don't keep the process alive. When it would exit on its own, the
+    // batch is sent on beforeExit instead, and the request keeps the process alive until done.
+    this.timer.unref();
+    process.once('beforeExit', this.onBeforeExit);
+  }
+
+  private async drain(): Promise<void> {
+    while (this.sending || this.queue.length > 0) {
+      await (this.sending || this.send());
+    }
+  }
+
+  /**
+   * Sends the next batch. Only one batch is in flight at a time, so entries arrive in order.
+   * @returns A promise that resolves once the batch has been shipped or dropped
+   */
+  private send(): Promise<void> {
+    if (this.sending) {
+      return this.sending;
+    }
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    process.off('beforeExit', this.onBeforeExit);
+
+    const batch = this.queue.splice(0, this.options.maxBatchSize);
+    if (batch.length === 0) {
+      return Promise.resolve();
+    }
+
+    this.sending = this.ship(batch).finally(() => {
+      this.sending = undefined;
+      if (this.queue.length >= this.options.maxBatchSize) {
+        void this.send();
+      } else {
+        this.schedule();
+      }
+    });
+    return this.sending;
+  }
+
+  /**
+   * POSTs a batch, retrying with exponential backoff
+   * @param batch - Serialized log entries
+   */
+  private async ship(batch: string[]): Promise<void> {
+    const body = `[${batch.join(',')}]`;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.post(body);
+        return;
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+          this.dropped += batch.length;
+          return;
+        }
+        const delay = this.options.retryDelay * 2 ** attempt;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Sends a single request
+   * @param body - JSON request body
+   * @returns A promise that resolves on a 2xx response
+   */
+  private post(body: string): Promise<void> {
+    const client = this.url.startsWith('https:') ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = client.request(
+        this.url,
+        {
+          method: 'POST',
+          timeout: this.options.timeout,
+          headers: {
+            ...this.headers,
+            'content-type': 'application/json',
+            'content-length': Buffer.byteLength(body),
+          },
+        },
+        res => {
+          // Drain the response so the socket can be reused
+          res.resume();
+          const status = res.statusCode || 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new HttpStatusError(status));
+          }
+        }
+      );
+      req.on('timeout', () => req.destroy(new Error('Log endpoint request timed out')));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Helpers for instrumenting third-party clients by wrapping their methods
+ */
+
+/**
+ * A method of an instrumented client
+ */
+export type Method = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Checks whether a value is a non-null object
+ * @param value - The value
+ * @returns boolean indicating if the value is an object
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks whether a value is a promise or promise-like
+ * @param value - The value
+ * @returns boolean indicating if the value has a then method
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return isObject(value) && typeof value.then === 'function';
+}
+
+/**
+ * Converts a rejection reason or thrown value to an Error
+ * @param error - The thrown value
+ * @returns The value itself if it is an Error, otherwise an Error with its text
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Replaces a method with one that logs each call
+ * @param target - Object (or prototype) that has the method
+ * @param name - Method name
+ * @param wrap - Builds the replacement from the original method
+ * @returns A function that restores the original method
+ */
+export function wrapMethod(
+  target: Record<string, unknown>,
+  name: string,
+  wrap: (original: Method) => Method
+): () => void {
+  const original = target[name];
+  if (typeof original !== 'function') {
+    return () => undefined;
+  }
+  const hadOwn = Object.prototype.hasOwnProperty.call(target, name);
+  const wrapped = wrap(original as Method);
+  target[name] = wrapped;
+
+  return () => {
+    if (target[name] !== wrapped) {
+      return;
+    }
+    if (hadOwn) {
+      target[name] = original;
+    } else {
+      delete target[name];
+    }
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Utility functions for log level handling
+ */
+import { LogLevel } from '../types';
+
+/**
+ * Numeric severity of each log level, matching Pino's level values
+ */
+export const LOG_LEVEL_VALUES: Record<LogLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+/**
+ * Checks whether a value is a supported log level
+ * @param value - The value to check
+ * @returns boolean indicating if the value is a LogLevel
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOG_LEVEL_VALUES, value);
+}
+
+/**
+ * Parses a log level from free-form input such as an environment variable
+ * @param value - The raw value (case-insensitive, surrounding whitespace ignored)
+ * @returns The matching LogLevel, or undefined if the value is not a supported level
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase();
+  return isLogLevel(normalized) ? normalized : undefined;
+}
+
+/**
+ * Returns the most verbose (lowest severity) level from a list of levels
+ * @param levels - Levels to compare
+ * @returns The level with the lowest numeric value
+ */
+export function lowestLogLevel(levels: LogLevel[]): LogLevel {
+  return levels.reduce((lowest, level) =>
+    LOG_LEVEL_VALUES[level] < LOG_LEVEL_VALUES[lowest] ? level : lowest
+  );
+}
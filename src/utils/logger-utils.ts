@@ -2,6 +2,7 @@
  * Utility functions for logging
  */
 import { v4 as uuidv4 } from 'uuid';
+import { HeaderMask, HeaderRules } from '../types';
 
 /**
  * Generates the current timestamp in ISO format
@@ -48,15 +49,53 @@ const ALLOWED_HEADERS = new Set([
     'cache-control',
   ]);
   
+  const HEADER_MASK = '[REDACTED]';
+
+  /**
+   * Masks a header value according to a mask rule.
+   * @param value The header value.
+   * @param mask How the value is masked.
+   * @returns The masked value.
+   */
+  function maskHeaderValue(value: string, mask: HeaderMask): string {
+    if (mask === 'scheme') {
+      const separator = value.indexOf(' ');
+      return separator > 0 ? `${value.slice(0, separator)} ${HEADER_MASK}` : HEADER_MASK;
+    }
+    if (mask === 'partial' && value.length > 8) {
+      return `${HEADER_MASK}${value.slice(-4)}`;
+    }
+    return HEADER_MASK;
+  }
+
   /**
    * Filters an object of headers, returning a new object with only the allowed headers.
+   * Without rules only the default allow-list is logged.
    * @param headers The original headers object.
-   * @returns A new object containing only the headers from the allow-list.
+   * @param rules Optional allow-list additions, deny-list and masking rules.
+   * @returns A new object containing only the allowed headers, with masked values where configured.
    */
-  export function filterHeaders(headers: Record<string, any>): Record<string, string> {
+  export function filterHeaders(
+    headers: Record<string, any>,
+    rules: HeaderRules = {}
+  ): Record<string, string> {
+    const allow = new Set((rules.allow || []).map(name => name.toLowerCase()));
+    const deny = new Set((rules.deny || []).map(name => name.toLowerCase()));
+    const masks = new Map(
+      Object.entries(rules.mask || {}).map(([name, mask]) => [name.toLowerCase(), mask])
+    );
+    const allowAll = allow.has('*');
+
     const filtered: Record<string, string> = {};
     for (const key in headers) {
-      if (ALLOWED_HEADERS.has(key.toLowerCase())) {
+      const name = key.toLowerCase();
+      if (deny.has(name)) {
+        continue;
+      }
+      const mask = masks.get(name);
+      if (mask) {
+        filtered[key] = maskHeaderValue(String(headers[key]), mask);
+      } else if (allowAll || allow.has(name) || ALLOWED_HEADERS.has(name)) {
         filtered[key] = String(headers[key]);
       }
     }
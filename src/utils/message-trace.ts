@@ -0,0 +1,72 @@
+/**
+ * Trace context propagation through message attributes and headers, so that the
+ * consumer of a message continues the trace of its producer
+ */
+import { MessageCarrierFormat } from '../types';
+import { isObject } from './instrumentation';
+
+/**
+ * Message attributes or headers: plain values such as RabbitMQ and Kafka headers,
+ * or SQS/SNS message attributes such as { DataType: 'String', StringValue: '...' }
+ */
+export type MessageCarrier = Record<string, unknown>;
+
+/**
+ * Decodes an attribute or header value to a string
+ * @param value - String, Buffer (Kafka), array of values (Kafka), or SQS/SNS attribute
+ * @returns The string value, or undefined for other values
+ */
+function decodeValue(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('utf8');
+  }
+  if (Array.isArray(value)) {
+    return decodeValue(value[0]);
+  }
+  if (isObject(value)) {
+    // SDK message attributes, Lambda SQS event records and SNS notifications
+    return decodeValue(value.StringValue ?? value.stringValue ?? value.Value);
+  }
+  return undefined;
+}
+
+/**
+ * Reads a value from message attributes or headers. Names are matched
+ * case-insensitively, as brokers and clients may change their case.
+ * @param carrier - Message attributes or headers
+ * @param name - Attribute or header name
+ * @returns The value, or undefined if it is missing or not a string
+ */
+export function readCarrierValue(
+  carrier: MessageCarrier | undefined,
+  name: string
+): string | undefined {
+  if (!carrier) {
+    return undefined;
+  }
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(carrier).find(candidate => candidate.toLowerCase() === lowerName);
+  return key === undefined ? undefined : decodeValue(carrier[key]);
+}
+
+/**
+ * Writes values to message attributes or headers
+ * @param carrier - Message attributes or headers to write to
+ * @param values - Names and values to write
+ * @param format - 'headers' for plain string values, 'sqs' for SQS/SNS message attributes
+ * @returns The carrier
+ */
+export function writeCarrierValues<T extends MessageCarrier>(
+  carrier: T,
+  values: Record<string, string>,
+  format: MessageCarrierFormat
+): T {
+  for (const [name, value] of Object.entries(values)) {
+    (carrier as MessageCarrier)[name] =
+      format === 'sqs' ? { DataType: 'String', StringValue: value } : value;
+  }
+  return carrier;
+}
@@ -0,0 +1,274 @@
+/**
+ * Optional OpenTelemetry bridge for trace and log correlation.
+ * @opentelemetry/api and @opentelemetry/api-logs are loaded lazily so they stay optional.
+ */
+import {
+  LogFields,
+  LogLevel,
+  OpenTelemetryOptions,
+  OtelLogRecord,
+  OtelLogsApi,
+  OtelSpanContext,
+  OtelTraceApi,
+} from '../types';
+
+type OtelAttributes = NonNullable<OtelLogRecord['attributes']>;
+
+/**
+ * OpenTelemetry severity number of each log level
+ */
+export const SEVERITY_NUMBERS: Record<LogLevel, number> = {
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+};
+
+const DB_SYSTEMS: Record<string, string> = {
+  postgres: 'postgresql',
+  mysql: 'mysql',
+  mssql: 'mssql',
+  mongodb: 'mongodb',
+};
+
+const MESSAGING_SYSTEMS: Record<string, string> = {
+  sqs: 'aws_sqs',
+  sns: 'aws.sns',
+  rabbitmq: 'rabbitmq',
+  kafka: 'kafka',
+};
+
+// Semantic convention operation types of the logged queue operations
+const MESSAGING_OPERATION_TYPES: Record<string, string> = {
+  publish: 'send',
+  consume: 'process',
+  ack: 'settle',
+  nack: 'settle',
+};
+
+const INVALID_TRACE_ID = '0'.repeat(32);
+
+/**
+ * Loads an optional dependency
+ * @param name - Package name
+ * @returns The module, or undefined if it is not installed
+ */
+function loadOptional<T>(name: string): T | undefined {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(name) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Adds an attribute when the value is a string, number or boolean
+ * @param attributes - Attributes to add to
+ * @param key - Attribute key
+ * @param value - Attribute value
+ */
+function setAttribute(attributes: OtelAttributes, key: string, value: unknown): void {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    attributes[key] = value;
+  }
+}
+
+/**
+ * Adds headers as http.request.header.* / http.response.header.* attributes
+ * @param attributes - Attributes to add to
+ * @param prefix - Attribute key prefix
+ * @param headers - Header names and values
+ */
+function setHeaderAttributes(
+  attributes: OtelAttributes,
+  prefix: string,
+  headers: Record<string, string> | undefined
+): void {
+  for (const [name, value] of Object.entries(headers || {})) {
+    setAttribute(attributes, `${prefix}.${name.toLowerCase()}`, value);
+  }
+}
+
+/**
+ * Maps a log entry to an OpenTelemetry LogRecord, using semantic-convention
+ * attribute keys where they exist and `unnbound.*` keys otherwise
+ * @param level - Log level
+ * @param logData - Structured log fields (everything except level and message)
+ * @param message - Log message
+ * @returns The LogRecord
+ */
+export function toOtelLogRecord(
+  level: LogLevel,
+  logData: LogFields,
+  message: string
+): OtelLogRecord {
+  const attributes: OtelAttributes = {};
+
+  setAttribute(attributes, 'unnbound.log_id', logData.logId);
+  setAttribute(attributes, 'unnbound.type', logData.type);
+  setAttribute(attributes, 'unnbound.workflow_id', logData.workflowId);
+  setAttribute(attributes, 'unnbound.service_id', logData.serviceId);
+  setAttribute(attributes, 'unnbound.deployment_id', logData.deploymentId);
+  setAttribute(attributes, 'unnbound.trace_id', logData.traceId);
+  setAttribute(attributes, 'unnbound.request_id', logData.requestId);
+  setAttribute(attributes, 'unnbound.span_id', logData.spanId);
+  setAttribute(attributes, 'unnbound.parent_span_id', logData.parentSpanId);
+  setAttribute(attributes, 'unnbound.tenant_id', logData.tenantId);
+  setAttribute(attributes, 'unnbound.duration_ms', logData.duration);
+  setAttribute(attributes, 'enduser.id', logData.userId);
+
+  if (logData.error) {
+    setAttribute(attributes, 'exception.type', logData.error.name);
+    setAttribute(attributes, 'exception.message', logData.error.message);
+    setAttribute(attributes, 'exception.stacktrace', logData.error.stack);
+  }
+
+  if (logData.data) {
+    attributes['unnbound.data'] = JSON.stringify(logData.data);
+  }
+
+  if (logData.span) {
+    setAttribute(attributes, 'unnbound.span.name', logData.span.name);
+    setAttribute(attributes, 'unnbound.span.status', logData.span.status);
+  }
+
+  const http = logData.httpRequest || logData.httpResponse;
+  if (http) {
+    setAttribute(attributes, 'http.request.method', http.method);
+    setAttribute(attributes, 'url.full', http.url);
+    if (http.ip !== 'outgoing') {
+      setAttribute(attributes, 'client.address', http.ip);
+    }
+  }
+  if (logData.httpRequest) {
+    setHeaderAttributes(attributes, 'http.request.header', logData.httpRequest.headers);
+  }
+  if (logData.httpResponse) {
+    setAttribute(attributes, 'http.response.status_code', logData.httpResponse.status);
+    setHeaderAttributes(attributes, 'http.response.header', logData.httpResponse.headers);
+  }
+
+  if (logData.sftp) {
+    attributes['network.protocol.name'] = 'sftp';
+    setAttribute(attributes, 'server.address', logData.sftp.host);
+    setAttribute(attributes, 'user.name', logData.sftp.username);
+    setAttribute(attributes, 'file.path', logData.sftp.path);
+    setAttribute(attributes, 'unnbound.sftp.operation', logData.sftp.operation);
+    setAttribute(attributes, 'unnbound.sftp.status', logData.sftp.status);
+    setAttribute(attributes, 'unnbound.sftp.bytes_transferred', logData.sftp.bytesTransferred);
+    setAttribute(attributes, 'unnbound.sftp.total_bytes', logData.sftp.totalBytes);
+    setAttribute(attributes, 'unnbound.sftp.bytes_per_second', logData.sftp.bytesPerSecond);
+    setAttribute(attributes, 'unnbound.sftp.files_listed', logData.sftp.filesListed);
+    setAttribute(attributes, 'unnbound.sftp.source_path', logData.sftp.sourcePath);
+  }
+
+  if (logData.storage) {
+    setAttribute(attributes, 'aws.s3.bucket', logData.storage.bucket);
+    setAttribute(attributes, 'aws.s3.key', logData.storage.key);
+    setAttribute(attributes, 'unnbound.storage.operation', logData.storage.operation);
+    setAttribute(attributes, 'unnbound.storage.status', logData.storage.status);
+    setAttribute(
+      attributes,
+      'unnbound.storage.bytes_transferred',
+      logData.storage.bytesTransferred
+    );
+    setAttribute(attributes, 'unnbound.storage.etag', logData.storage.etag);
+    setAttribute(attributes, 'unnbound.storage.objects_listed', logData.storage.objectsListed);
+    setAttribute(attributes, 'unnbound.storage.source_bucket', logData.storage.sourceBucket);
+    setAttribute(attributes, 'unnbound.storage.source_key', logData.storage.sourceKey);
+  }
+
+  if (logData.queue) {
+    const { queue } = logData;
+    setAttribute(attributes, 'messaging.system', MESSAGING_SYSTEMS[queue.system]);
+    setAttribute(attributes, 'messaging.destination.name', queue.name);
+    setAttribute(attributes, 'messaging.operation.name', queue.operation);
+    setAttribute(
+      attributes,
+      'messaging.operation.type',
+      MESSAGING_OPERATION_TYPES[queue.operation]
+    );
+    setAttribute(attributes, 'messaging.message.id', queue.messageId);
+    setAttribute(attributes, 'messaging.message.body.size', queue.payloadSize);
+    setAttribute(attributes, 'messaging.destination.partition.id', queue.partition?.toString());
+    setAttribute(attributes, 'unnbound.queue.status', queue.status);
+    setAttribute(attributes, 'unnbound.queue.delivery_attempt', queue.deliveryAttempt);
+  }
+
+  if (logData.db) {
+    setAttribute(attributes, 'db.system', DB_SYSTEMS[logData.db.vendor] || logData.db.vendor);
+    setAttribute(attributes, 'db.instance.id', logData.db.instance);
+    setAttribute(attributes, 'db.query.text', logData.db.query);
+    setAttribute(attributes, 'unnbound.db.fingerprint', logData.db.fingerprint);
+    setAttribute(attributes, 'db.response.returned_rows', logData.db.rowsReturned);
+    setAttribute(attributes, 'unnbound.db.rows_affected', logData.db.rowsAffected);
+    setAttribute(attributes, 'unnbound.db.status', logData.db.status);
+  }
+
+  return {
+    timestamp: Date.now(),
+    severityNumber: SEVERITY_NUMBERS[level],
+    severityText: level.toUpperCase(),
+    body: message,
+    attributes,
+  };
+}
+
+/**
+ * Reads trace context from, and emits logs to, OpenTelemetry
+ */
+export class OpenTelemetryBridge {
+  private traceApi?: OtelTraceApi;
+  private otelLogger?: ReturnType<OtelLogsApi['getLogger']>;
+
+  /**
+   * Creates a new OpenTelemetryBridge. Missing OpenTelemetry packages disable
+   * the corresponding feature instead of throwing.
+   * @param options - Bridge options
+   */
+  constructor(options: OpenTelemetryOptions = {}) {
+    if (options.useActiveSpan !== false) {
+      this.traceApi =
+        options.traceApi || loadOptional<{ trace: OtelTraceApi }>('@opentelemetry/api')?.trace;
+    }
+
+    if (options.emitLogRecords) {
+      const logsApi =
+        options.logsApi || loadOptional<{ logs: OtelLogsApi }>('@opentelemetry/api-logs')?.logs;
+      this.otelLogger = logsApi?.getLogger(options.loggerName || 'unnbound-logger');
+    }
+  }
+
+  /**
+   * Gets the span context of the active OpenTelemetry span
+   * @returns The span context, or undefined if there is no valid active span
+   */
+  getActiveSpanContext(): OtelSpanContext | undefined {
+    const spanContext = this.traceApi?.getActiveSpan()?.spanContext();
+    if (!spanContext || spanContext.traceId === INVALID_TRACE_ID) {
+      return undefined;
+    }
+    return spanContext;
+  }
+
+  /**
+   * Emits a log entry as an OpenTelemetry LogRecord. Errors from the
+   * OpenTelemetry SDK are swallowed so they never break logging.
+   * @param level - Log level
+   * @param logData - Structured log fields
+   * @param message - Log message
+   */
+  emit(level: LogLevel, logData: LogFields, message: string): void {
+    if (!this.otelLogger) {
+      return;
+    }
+
+    try {
+      this.otelLogger.emit(toOtelLogRecord(level, logData, message));
+    } catch {
+      // Ignore exporter failures
+    }
+  }
+}
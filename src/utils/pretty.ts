@@ -0,0 +1,198 @@
+/**
+ * Utility functions for the human-readable development output format
+ */
+import { LogFields, LogFormat, LogLevel } from '../types';
+
+/**
+ * ANSI colour codes
+ */
+const COLORS = {
+  reset: 0,
+  dim: 2,
+  red: 31,
+  green: 32,
+  yellow: 33,
+  magenta: 35,
+  cyan: 36,
+  gray: 90,
+};
+
+type Color = keyof typeof COLORS;
+
+const LEVEL_COLORS: Record<LogLevel, Color> = {
+  debug: 'gray',
+  info: 'green',
+  warn: 'yellow',
+  error: 'red',
+  fatal: 'magenta',
+};
+
+/**
+ * Maximum length of a query in a summary line
+ */
+const MAX_QUERY_LENGTH = 80;
+
+/**
+ * A log entry as written by Pino, with the message under the 'messages' key
+ */
+export type PrettyEntry = LogFields & { level: string; messages?: string };
+
+/**
+ * Parses a log format from free-form input such as an environment variable
+ * @param value - The raw value (case-insensitive, surrounding whitespace ignored)
+ * @returns The matching LogFormat, or undefined if the value is not a supported format
+ */
+export function parseLogFormat(value: string | undefined): LogFormat | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === 'json' || normalized === 'pretty' ? normalized : undefined;
+}
+
+/**
+ * Formats a byte count, e.g. 12288 as '12KB'
+ * @param bytes - Number of bytes
+ * @returns The formatted size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)}KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+/**
+ * Shortens the URL of an incoming request to its path; outgoing calls keep the full URL
+ * @param url - The logged URL
+ * @param ip - The logged client IP ('outgoing' for outgoing calls)
+ * @returns The URL to display
+ */
+function displayUrl(url: string, ip?: string): string {
+  if (ip === 'outgoing') {
+    return url;
+  }
+  try {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Builds the one-line summary of a log entry, tailored to its type
+ * @param entry - The log entry
+ * @param paint - Applies a colour when colours are enabled
+ * @returns The summary
+ */
+function summarize(entry: PrettyEntry, paint: (color: Color, text: string) => string): string {
+  const duration = entry.duration ? ` ${entry.duration}ms` : '';
+
+  if (entry.type === 'httpRequest' && entry.httpRequest) {
+    const { method, url, ip, attempt } = entry.httpRequest;
+    const retry = attempt && attempt > 1 ? ` (attempt ${attempt})` : '';
+    return `← ${method} ${displayUrl(url, ip)}${retry}`;
+  }
+
+  if (entry.type === 'httpResponse' && entry.httpResponse) {
+    const { method, url, ip, status, outcome, attempt } = entry.httpResponse;
+    const statusColor: Color =
+      status >= 500 ? 'red' : status >= 400 ? 'yellow' : status >= 300 ? 'cyan' : 'green';
+    const ended = outcome && outcome !== 'completed' ? ` ${outcome}` : '';
+    const retry = attempt && attempt > 1 ? ` (attempt ${attempt})` : '';
+    const statusText = paint(statusColor, String(status));
+    return `→ ${method} ${displayUrl(url, ip)} ${statusText}${duration}${ended}${retry}`;
+  }
+
+  if (entry.type === 'sftpTransaction' && entry.sftp) {
+    const { operation, status, path, sourcePath, bytesTransferred, filesListed } = entry.sftp;
+    const { totalBytes, bytesPerSecond } = entry.sftp;
+    const target = sourcePath ? `${sourcePath} → ${path}` : path;
+    const total = totalBytes !== undefined ? `/${formatBytes(totalBytes)}` : '';
+    const size = bytesTransferred !== undefined ? ` ${formatBytes(bytesTransferred)}${total}` : '';
+    const rate = bytesPerSecond !== undefined ? ` ${formatBytes(bytesPerSecond)}/s` : '';
+    const files = filesListed !== undefined ? ` ${filesListed} files` : '';
+    return `SFTP ${operation} ${status} ${target}${size}${rate}${files}${duration}`;
+  }
+
+  if (entry.type === 'storageTransaction' && entry.storage) {
+    const { operation, status, bucket, key, sourceBucket, sourceKey } = entry.storage;
+    const { bytesTransferred, objectsListed } = entry.storage;
+    const object = key ? `${bucket}/${key}` : bucket;
+    const source = sourceBucket ? `${sourceBucket}/${sourceKey || ''} → ` : '';
+    const size = bytesTransferred !== undefined ? ` ${formatBytes(bytesTransferred)}` : '';
+    const objects = objectsListed !== undefined ? ` ${objectsListed} objects` : '';
+    return `Storage ${operation} ${status} ${source}${object}${size}${objects}${duration}`;
+  }
+
+  if (entry.type === 'queueTransaction' && entry.queue) {
+    const { system, operation, status, name } = entry.queue;
+    const { messageId, payloadSize, deliveryAttempt } = entry.queue;
+    const id = messageId ? ` ${messageId}` : '';
+    const size = payloadSize !== undefined ? ` ${formatBytes(payloadSize)}` : '';
+    const retry = deliveryAttempt && deliveryAttempt > 1 ? ` (attempt ${deliveryAttempt})` : '';
+    return `Queue ${system} ${operation} ${status} ${name}${id}${size}${duration}${retry}`;
+  }
+
+  if (entry.type === 'dbQueryTransaction' && entry.db) {
+    const { vendor, status, query, rowsReturned, rowsAffected } = entry.db;
+    const text =
+      query && query.length > MAX_QUERY_LENGTH ? `${query.slice(0, MAX_QUERY_LENGTH)}…` : query;
+    const rows = rowsReturned ?? rowsAffected;
+    const rowsText = rows !== undefined ? ` ${rows} rows` : '';
+    return `DB ${vendor} ${status}${text ? ` ${text}` : ''}${rowsText}${duration}`;
+  }
+
+  return entry.span ? `${entry.messages}${duration}` : entry.messages || '';
+}
+
+/**
+ * Indents a JSON value under a label
+ * @param label - Field label
+ * @param value - Field value
+ * @returns The indented lines
+ */
+function formatDetail(label: string, value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return `    ${label}: ${text.replace(/\n/g, '\n    ')}`;
+}
+
+/**
+ * Renders a log entry as a colourised summary line followed by indented details
+ * (data, error, bodies and span attributes)
+ * @param entry - The log entry, as written by Pino
+ * @param colors - Whether to use ANSI colours
+ * @returns The formatted lines, ending with a newline
+ */
+export function formatPretty(entry: PrettyEntry, colors: boolean): string {
+  const paint = (color: Color, text: string): string =>
+    colors ? `\u001b[${COLORS[color]}m${text}\u001b[${COLORS.reset}m` : text;
+
+  const level = String(entry.level) as LogLevel;
+  const time = new Date().toISOString().slice(11, 23);
+  const label = paint(LEVEL_COLORS[level] || 'reset', level.toUpperCase().padEnd(5));
+  const ids = entry.traceId ? ` ${paint('gray', `trace=${entry.traceId}`)}` : '';
+  const lines = [`${paint('dim', time)} ${label} ${summarize(entry, paint)}${ids}`];
+
+  const details: [string, unknown][] = [
+    ['body', entry.httpRequest?.body],
+    ['body', entry.httpResponse?.body],
+    [
+      'attributes',
+      entry.span && Object.keys(entry.span.attributes).length > 0
+        ? entry.span.attributes
+        : undefined,
+    ],
+    ['data', entry.data],
+    ['error', entry.error?.stack || entry.error],
+    ['cause', entry.error?.cause],
+  ];
+  for (const [name, value] of details) {
+    if (value !== undefined) {
+      lines.push(paint('dim', formatDetail(name, value)));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,150 @@
+/**
+ * Utility functions for redacting sensitive data from log entries
+ */
+import { createHash } from 'crypto';
+import { RedactOptions } from '../types';
+
+/**
+ * Returns a redacted copy of a value; strings, arrays and plain objects are
+ * processed recursively, other values are returned unchanged
+ */
+export interface Redactor {
+  /**
+   * @param value - The value to redact
+   * @param path - Path of the value within the log entry, e.g. ['httpRequest', 'body']
+   */
+  <T>(value: T, path?: string[]): T;
+  /**
+   * Redacts text that may hold incomplete JSON, such as the beginning of a truncated
+   * body: the values of sensitive keys, and matching substrings. Paths can't be followed
+   * in such text, so their last key is redacted wherever it appears.
+   * @param text - The text to redact
+   */
+  text(text: string): string;
+}
+
+const DEFAULT_MASK = '[REDACTED]';
+
+/**
+ * Splits a redaction path into segments. Array indices may be written as
+ * `items[0]` or `items.0`, and `[*]` is equivalent to `.*`.
+ * @param path - The path, e.g. 'httpRequest.body.cards[*].number'
+ * @returns The path segments
+ */
+function parsePath(path: string): string[] {
+  return path
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .split('.')
+    .filter(segment => segment.length > 0);
+}
+
+/**
+ * Checks whether a key path matches a redaction path, where '*' matches any single key
+ * @param keyPath - Path of the current key
+ * @param pattern - Parsed redaction path
+ * @returns boolean indicating if the path matches
+ */
+function matchesPath(keyPath: string[], pattern: string[]): boolean {
+  return (
+    keyPath.length === pattern.length &&
+    pattern.every((segment, index) => segment === '*' || segment === keyPath[index])
+  );
+}
+
+/**
+ * Checks whether a value is a plain object (not an array, Buffer, Date, Error, etc.)
+ * @param value - The value to check
+ * @returns boolean indicating if the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Creates a redactor from redaction options
+ * @param options - Paths, key names and value patterns to redact, and how
+ * @returns A function returning redacted copies of values
+ */
+export function createRedactor(options: RedactOptions): Redactor {
+  const strategy = options.strategy || 'mask';
+  const mask = options.mask ?? DEFAULT_MASK;
+  const paths = (options.paths || []).map(parsePath);
+  const keys = (options.keys || []).map(key =>
+    typeof key === 'string' ? key.toLowerCase() : key
+  );
+  // Value patterns must be global to replace every occurrence
+  const values = (options.values || []).map(pattern =>
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+  );
+
+  const hash = (value: unknown): string => {
+    const input = typeof value === 'string' ? value : (JSON.stringify(value) ?? String(value));
+    return `sha256:${createHash('sha256').update(input).digest('hex').slice(0, 16)}`;
+  };
+
+  const replacement = (value: unknown): unknown => (strategy === 'hash' ? hash(value) : mask);
+
+  const isSensitiveKey = (key: string, keyPath: string[]): boolean =>
+    keys.some(pattern =>
+      typeof pattern === 'string' ? pattern === key.toLowerCase() : pattern.test(key)
+    ) || paths.some(pattern => matchesPath(keyPath, pattern));
+
+  const redactString = (value: string): string =>
+    values.reduce(
+      (result, pattern) =>
+        result.replace(pattern, match =>
+          strategy === 'remove' ? '' : String(replacement(match))
+        ),
+      value
+    );
+
+  const walk = (value: unknown, path: string[], seen: WeakSet<object>): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+
+      const entries = Object.entries(value);
+      const result: [string, unknown][] = [];
+      for (const [key, child] of entries) {
+        const keyPath = [...path, key];
+        if (isSensitiveKey(key, keyPath)) {
+          if (strategy !== 'remove') {
+            result.push([key, replacement(child)]);
+          }
+        } else {
+          result.push([key, walk(child, keyPath, seen)]);
+        }
+      }
+
+      seen.delete(value);
+      return Array.isArray(value) ? result.map(([, child]) => child) : Object.fromEntries(result);
+    }
+
+    return value;
+  };
+
+  // A "key": value pair, where the value may be cut off at the end of the text
+  const pairPattern = /"((?:[^"\\]|\\.)*)"\s*:\s*("(?:[^"\\]|\\.)*"?|[^\s,\]}]+)/g;
+  const pathKeys = paths.map(pattern => pattern[pattern.length - 1]).filter(key => key !== '*');
+
+  const text = (value: string): string =>
+    redactString(
+      value.replace(pairPattern, (pair, key: string, child: string) => {
+        if (!isSensitiveKey(key, []) && !pathKeys.includes(key)) {
+          return pair;
+        }
+        return strategy === 'remove' ? '' : `"${key}":${JSON.stringify(replacement(child))}`;
+      })
+    );
+
+  return Object.assign(
+    <T>(value: T, path: string[] = []): T => walk(value, path, new WeakSet()) as T,
+    { text }
+  );
+}
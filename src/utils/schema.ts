@@ -0,0 +1,344 @@
+/**
+ * Mappings of log entries onto Elastic Common Schema, GCP Cloud Logging and OTLP log JSON
+ */
+import { LogFields, LogLevel, LogSchema } from '../types';
+import { generateTimestamp } from './logger-utils';
+import { SEVERITY_NUMBERS, toOtelLogRecord } from './opentelemetry';
+import { toW3cTraceId } from './trace-parent';
+
+/**
+ * Maps a log entry, except its level, onto an output schema
+ */
+export type SchemaMapper = (
+  level: LogLevel,
+  logData: LogFields,
+  message: string
+) => Record<string, unknown>;
+
+/**
+ * An output schema. The level fields are written by Pino's level formatter, which
+ * puts them first in every entry.
+ */
+export interface OutputSchema {
+  level: (level: LogLevel) => Record<string, unknown>;
+  map: SchemaMapper;
+}
+
+/**
+ * Version of Elastic Common Schema the ECS mapping follows
+ */
+export const ECS_VERSION = '8.11.0';
+
+const GCP_SEVERITIES: Record<LogLevel, string> = {
+  debug: 'DEBUG',
+  info: 'INFO',
+  warn: 'WARNING',
+  error: 'ERROR',
+  fatal: 'CRITICAL',
+};
+
+/**
+ * Removes undefined and empty-string fields, and objects left without fields
+ * @param value - Object to compact
+ * @returns The compacted object, or undefined if no fields are left
+ */
+function compact(value: Record<string, unknown>): Record<string, unknown> | undefined {
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const isObject =
+      field !== null &&
+      typeof field === 'object' &&
+      !Array.isArray(field) &&
+      Object.getPrototypeOf(field) === Object.prototype;
+    const compacted = isObject ? compact(field as Record<string, unknown>) : field;
+    if (compacted !== undefined && compacted !== '') {
+      result[key] = compacted;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Serializes a captured body for schemas whose body fields are strings
+ * @param body - Captured body
+ * @returns The body as a string, or undefined if there is none
+ */
+function bodyContent(body: unknown): string | undefined {
+  if (body === undefined) {
+    return undefined;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Gets whether the operation of a log entry succeeded, where that is known
+ * @param logData - Structured log fields
+ * @returns 'success', 'failure', or undefined for general logs
+ */
+function getOutcome(logData: LogFields): 'success' | 'failure' | undefined {
+  if (logData.httpResponse) {
+    return logData.httpResponse.status < 400 && logData.httpResponse.outcome !== 'aborted'
+      ? 'success'
+      : 'failure';
+  }
+  if (logData.span) {
+    return logData.span.status === 'ok' ? 'success' : 'failure';
+  }
+  if (logData.sftp) {
+    return logData.sftp.status === 'in_progress' ? undefined : logData.sftp.status;
+  }
+  return logData.storage?.status || logData.queue?.status || logData.db?.status;
+}
+
+/**
+ * Maps a log entry onto Elastic Common Schema. Fields without an ECS equivalent
+ * are kept under `unnbound`.
+ * @param level - Log level
+ * @param logData - Structured log fields
+ * @param message - Log message
+ * @returns The ECS document
+ */
+export function toEcs(
+  _level: LogLevel,
+  logData: LogFields,
+  message: string
+): Record<string, unknown> {
+  const http = logData.httpRequest || logData.httpResponse;
+  const { sftp, storage, queue, db, span, error } = logData;
+
+  const fields = compact({
+    event: {
+      id: logData.logId,
+      kind: 'event',
+      action: sftp
+        ? `sftp-${sftp.operation}`
+        : storage
+          ? `storage-${storage.operation}`
+          : queue
+            ? `queue-${queue.operation}`
+            : db
+              ? 'db-query'
+              : undefined,
+      outcome: getOutcome(logData),
+      // ECS durations are in nanoseconds
+      duration: logData.duration !== undefined ? logData.duration * 1e6 : undefined,
+    },
+    service: { name: logData.serviceId },
+    trace: { id: logData.traceId },
+    span: { id: logData.spanId },
+    user: { id: logData.userId, name: sftp?.username },
+    organization: { id: logData.tenantId },
+    error: error && { type: error.name, message: error.message, stack_trace: error.stack },
+    http: http && {
+      request: {
+        method: http.method,
+        body: { content: bodyContent(logData.httpRequest?.body) },
+      },
+      response: logData.httpResponse && {
+        status_code: logData.httpResponse.status,
+        body: {
+          content: bodyContent(logData.httpResponse.body),
+          bytes: logData.httpResponse.bytesSent,
+        },
+      },
+    },
+    url: http && { full: http.url },
+    client: http && http.ip !== 'outgoing' ? { ip: http.ip } : undefined,
+    server: sftp && { address: sftp.host },
+    file: sftp ? { path: sftp.path } : storage?.key ? { path: storage.key } : undefined,
+    unnbound: {
+      type: logData.type,
+      workflow_id: logData.workflowId,
+      deployment_id: logData.deploymentId,
+      request_id: logData.requestId,
+      parent_span_id: logData.parentSpanId,
+      data: logData.data,
+      span: span && { name: span.name, status: span.status, attributes: span.attributes },
+      http: http && {
+        attempt: http.attempt,
+        outcome: logData.httpResponse?.outcome,
+        headers: http.headers,
+      },
+      sftp: sftp && {
+        operation: sftp.operation,
+        status: sftp.status,
+        bytes_transferred: sftp.bytesTransferred,
+        total_bytes: sftp.totalBytes,
+        bytes_per_second: sftp.bytesPerSecond,
+        files_listed: sftp.filesListed,
+        source_path: sftp.sourcePath,
+      },
+      storage: storage && {
+        bucket: storage.bucket,
+        key: storage.key,
+        operation: storage.operation,
+        status: storage.status,
+        bytes_transferred: storage.bytesTransferred,
+        etag: storage.etag,
+        objects_listed: storage.objectsListed,
+        source_bucket: storage.sourceBucket,
+        source_key: storage.sourceKey,
+      },
+      queue: queue && {
+        system: queue.system,
+        name: queue.name,
+        operation: queue.operation,
+        status: queue.status,
+        message_id: queue.messageId,
+        payload_size: queue.payloadSize,
+        delivery_attempt: queue.deliveryAttempt,
+        partition: queue.partition,
+      },
+      db: db && {
+        vendor: db.vendor,
+        instance: db.instance,
+        statement: db.query,
+        fingerprint: db.fingerprint,
+        status: db.status,
+        rows_returned: db.rowsReturned,
+        rows_affected: db.rowsAffected,
+      },
+    },
+  });
+
+  return {
+    '@timestamp': generateTimestamp(),
+    message,
+    'ecs.version': ECS_VERSION,
+    ...fields,
+  };
+}
+
+/**
+ * Creates the mapping onto GCP Cloud Logging structured JSON. Special fields set the
+ * LogEntry severity, trace, span, insertId, labels and httpRequest; everything else
+ * becomes the jsonPayload.
+ * @param projectId - Project used to build full trace resource names, if known
+ * @returns The mapper
+ */
+export function createGcpMapper(projectId?: string): SchemaMapper {
+  return (_level, logData, message) => {
+    const { httpRequest, httpResponse, error } = logData;
+    const http = httpRequest || httpResponse;
+    const { logId, type, workflowId, serviceId, deploymentId, requestId, traceId, spanId } =
+      logData;
+    // Cloud Trace IDs are 32 hex characters; other trace IDs are kept as they are
+    const gcpTraceId = traceId && (toW3cTraceId(traceId) || traceId);
+    const trace =
+      gcpTraceId && projectId ? `projects/${projectId}/traces/${gcpTraceId}` : gcpTraceId;
+
+    return {
+      message,
+      time: generateTimestamp(),
+      ...compact({
+        'logging.googleapis.com/insertId': logId,
+        'logging.googleapis.com/trace': trace,
+        'logging.googleapis.com/spanId': spanId,
+        'logging.googleapis.com/labels': { type, workflowId, serviceId, deploymentId, requestId },
+        httpRequest: http && {
+          requestMethod: http.method,
+          requestUrl: http.url,
+          status: httpResponse?.status,
+          remoteIp: http.ip !== 'outgoing' ? http.ip : undefined,
+          userAgent: http.headers?.['user-agent'],
+          responseSize: httpResponse?.bytesSent?.toString(),
+          latency: logData.duration !== undefined ? `${logData.duration / 1000}s` : undefined,
+        },
+        // Read by Error Reporting
+        stack_trace: error?.stack,
+      }),
+      ...compact({
+        parentSpanId: logData.parentSpanId,
+        userId: logData.userId,
+        tenantId: logData.tenantId,
+        duration: logData.duration,
+        error,
+        data: logData.data,
+        http: http && {
+          headers: http.headers,
+          body: http.body,
+          attempt: http.attempt,
+          outcome: httpResponse?.outcome,
+        },
+        span: logData.span,
+        sftp: logData.sftp,
+        storage: logData.storage,
+        queue: logData.queue,
+        db: logData.db,
+      }),
+    };
+  };
+}
+
+/**
+ * Converts an attribute value to an OTLP AnyValue
+ * @param value - Attribute value
+ * @returns The AnyValue
+ */
+function toAnyValue(value: string | number | boolean): Record<string, unknown> {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  // OTLP JSON encodes 64-bit integers as strings
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+/**
+ * Maps a log entry onto an OTLP/JSON LogRecord, with the same attributes as the
+ * OpenTelemetry bridge. Trace and span IDs are set when they are valid hex IDs;
+ * UUID trace IDs are used without their dashes.
+ * @param level - Log level
+ * @param logData - Structured log fields
+ * @param message - Log message
+ * @returns The LogRecord
+ */
+export function toOtlp(
+  level: LogLevel,
+  logData: LogFields,
+  message: string
+): Record<string, unknown> {
+  const record = toOtelLogRecord(level, logData, message);
+  const traceId = logData.traceId && toW3cTraceId(logData.traceId);
+  const spanId = logData.spanId?.toLowerCase();
+
+  return {
+    timeUnixNano: `${record.timestamp as number}000000`,
+    body: { stringValue: message },
+    attributes: Object.entries(record.attributes || {}).map(([key, value]) => ({
+      key,
+      value: toAnyValue(value),
+    })),
+    ...(traceId && { traceId }),
+    ...(spanId && /^[0-9a-f]{16}$/.test(spanId) && { spanId }),
+  };
+}
+
+/**
+ * Creates an output schema
+ * @param schema - Name of the schema
+ * @returns The output schema, or undefined for the native 'unnbound' schema
+ */
+export function createOutputSchema(schema: LogSchema): OutputSchema | undefined {
+  switch (schema) {
+    case 'ecs':
+      return { level: level => ({ 'log.level': level }), map: toEcs };
+    case 'gcp':
+      return {
+        level: level => ({ severity: GCP_SEVERITIES[level] || 'DEFAULT' }),
+        map: createGcpMapper(process.env.GOOGLE_CLOUD_PROJECT || process.env.GCLOUD_PROJECT),
+      };
+    case 'otlp':
+      return {
+        level: level => ({
+          severityNumber: SEVERITY_NUMBERS[level],
+          severityText: level.toUpperCase(),
+        }),
+        map: toOtlp,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Utility functions for serializing errors into log entries
+ */
+import { SerializableError } from '../types';
+
+/**
+ * Default maximum depth of nested causes and aggregated errors
+ */
+export const DEFAULT_MAX_ERROR_DEPTH = 5;
+
+/**
+ * Properties that are serialized explicitly rather than as custom properties
+ */
+const KNOWN_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+/**
+ * The fields of an AxiosError that are safe to log
+ */
+interface AxiosErrorLike extends Error {
+  isAxiosError: true;
+  code?: string;
+  config?: { method?: string; baseURL?: string; url?: string };
+  response?: { status?: number };
+}
+
+/**
+ * Checks whether an error is an AxiosError. Its config, request and response are never
+ * logged in full since they hold headers, credentials and bodies.
+ * @param error - The error to check
+ * @returns boolean indicating if the error is an AxiosError
+ */
+function isAxiosError(error: Error): error is AxiosErrorLike {
+  return (error as Partial<AxiosErrorLike>).isAxiosError === true;
+}
+
+/**
+ * Builds an absolute request URL from an Axios config
+ * @param config - Axios request config
+ * @returns The URL, or undefined if the config has none
+ */
+function getAxiosUrl(config: AxiosErrorLike['config']): string | undefined {
+  if (!config?.url) {
+    return undefined;
+  }
+  if (!config.baseURL || /^[a-z][a-z\d+\-.]*:\/\//i.test(config.url)) {
+    return config.url;
+  }
+  return `${config.baseURL.replace(/\/+$/, '')}/${config.url.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Serializes a value found in an error's cause or errors
+ * @param value - An Error or any other thrown value
+ * @param depth - Current nesting depth
+ * @param maxDepth - Maximum nesting depth
+ * @param seen - Errors already being serialized, to detect cycles
+ * @returns The serialized error, or the value itself if it isn't an Error
+ */
+function serializeNested(
+  value: unknown,
+  depth: number,
+  maxDepth: number,
+  seen: Set<Error>
+): unknown {
+  return value instanceof Error ? serialize(value, depth, maxDepth, seen) : value;
+}
+
+/**
+ * Serializes an error and, up to maxDepth, its causes and aggregated errors
+ * @param error - The error to serialize
+ * @param depth - Current nesting depth
+ * @param maxDepth - Maximum nesting depth
+ * @param seen - Errors already being serialized, to detect cycles
+ * @returns The serialized error
+ */
+function serialize(
+  error: Error,
+  depth: number,
+  maxDepth: number,
+  seen: Set<Error>
+): SerializableError {
+  const serialized: SerializableError = {
+    name: error.name,
+    message: error.message,
+  };
+
+  if (seen.has(error)) {
+    serialized.message = '[Circular]';
+    return serialized;
+  }
+  if (error.stack) {
+    serialized.stack = error.stack;
+  }
+  if (depth >= maxDepth) {
+    return serialized;
+  }
+  seen.add(error);
+
+  if (isAxiosError(error)) {
+    if (error.code) {
+      serialized.code = error.code;
+    }
+    const method = error.config?.method?.toUpperCase();
+    const url = getAxiosUrl(error.config);
+    const status = error.response?.status;
+    if (method) {
+      serialized.method = method;
+    }
+    if (url) {
+      serialized.url = url;
+    }
+    if (status) {
+      serialized.status = status;
+    }
+  } else {
+    // Includes code, errno and syscall of Node.js system errors
+    for (const [key, value] of Object.entries(error)) {
+      if (!KNOWN_PROPERTIES.has(key) && typeof value !== 'function') {
+        serialized[key] = serializeNested(value, depth + 1, maxDepth, seen);
+      }
+    }
+  }
+
+  const { cause, errors } = error as { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) {
+    serialized.cause = serializeNested(cause, depth + 1, maxDepth, seen);
+  }
+  if (Array.isArray(errors)) {
+    serialized.errors = errors.map(item => serializeNested(item, depth + 1, maxDepth, seen));
+  }
+
+  seen.delete(error);
+  return serialized;
+}
+
+/**
+ * Serializes an error for logging, including its cause chain, AggregateError errors,
+ * system error fields (code, errno, syscall) and enumerable custom properties.
+ * AxiosErrors are reduced to their code, method, url and status.
+ * @param error - The error to serialize
+ * @param maxDepth - Maximum depth of nested causes and errors (default: 5)
+ * @returns The serialized error
+ */
+export function serializeError(
+  error: Error,
+  maxDepth: number = DEFAULT_MAX_ERROR_DEPTH
+): SerializableError {
+  return serialize(error, 0, maxDepth, new Set());
+}
+
+/**
+ * Builds the headline of an error log, e.g. 'TypeError: Cannot read properties of undefined'
+ * @param error - The error
+ * @returns The log message
+ */
+export function getErrorHeadline(error: Error): string {
+  return error.message ? `${error.name}: ${error.message}` : error.name;
+}
@@ -0,0 +1,360 @@
+/**
+ * Automatic SFTP transaction logging for ssh2-sftp-client. The client is instrumented by
+ * wrapping methods of the instance passed in, so it is not a dependency of the logger.
+ */
+import { promises as fs } from 'fs';
+import { Readable, Transform, Writable, pipeline } from 'stream';
+import { SftpInstrumentationOptions, SftpOperation, SftpTransactionLogOptions } from '../types';
+import { Method, isObject, isThenable, toError, wrapMethod } from './instrumentation';
+
+/**
+ * Logs a finished SFTP operation, e.g. UnnboundLogger.sftpTransaction
+ */
+export type SftpLogger = (operation: SftpOperation, options: SftpTransactionLogOptions) => void;
+
+/**
+ * Default interval between progress entries of running transfers, in milliseconds
+ */
+export const DEFAULT_PROGRESS_INTERVAL = 10000;
+
+/**
+ * Bytes transferred so far by a running transfer
+ */
+interface TransferProgress {
+  bytes: number;
+  total?: number;
+}
+
+/**
+ * How a client method call is logged
+ */
+interface SftpCall {
+  operation: SftpOperation['operation'];
+  path: string;
+  sourcePath?: string;
+  /** Arguments to call the client with; streams are replaced by byte-counting streams */
+  args: unknown[];
+  /** Bytes transferred by a successful call */
+  bytesTransferred?: (result: unknown) => number | undefined | Promise<number | undefined>;
+  /** Files listed by a successful call */
+  filesListed?: (result: unknown) => number | undefined;
+  /** Progress of a running transfer, for transfers that report it */
+  progress?: () => TransferProgress;
+}
+
+/**
+ * Gets the size of a local file
+ * @param path - Local file path
+ * @returns The size in bytes, or undefined if the file cannot be read
+ */
+function fileSize(path: unknown): Promise<number | undefined> {
+  if (typeof path !== 'string') {
+    return Promise.resolve(undefined);
+  }
+  return fs.stat(path).then(
+    stats => stats.size,
+    () => undefined
+  );
+}
+
+function isReadable(value: unknown): value is Readable {
+  return isObject(value) && typeof value.pipe === 'function' && typeof value.read === 'function';
+}
+
+/**
+ * Passes a stream through a transform that counts its bytes. Errors of the source
+ * stream are forwarded to the returned stream.
+ * @param source - The stream to count
+ * @returns The counting stream and a function returning the bytes counted so far
+ */
+function countBytes(source: Readable): { stream: Transform; count: () => number } {
+  let bytes = 0;
+  const stream = new Transform({
+    transform(chunk: Buffer | string, _encoding, callback): void {
+      bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+      callback(null, chunk);
+    },
+  });
+  pipeline(source, stream, () => undefined);
+  return { stream, count: () => bytes };
+}
+
+/**
+ * Describes an upload with put() or append(): the source is a Buffer, a readable stream
+ * or (for put) a local path
+ * @param operation - The logged operation
+ * @returns Describes a call of the method
+ */
+function describeUpload(operation: 'upload' | 'append'): (args: unknown[]) => SftpCall {
+  return ([source, remotePath, ...rest]) => {
+    const call: SftpCall = {
+      operation,
+      path: String(remotePath),
+      args: [source, remotePath, ...rest],
+    };
+    if (Buffer.isBuffer(source)) {
+      call.bytesTransferred = (): number => source.length;
+    } else if (isReadable(source)) {
+      const counter = countBytes(source);
+      call.args = [counter.stream, remotePath, ...rest];
+      call.bytesTransferred = counter.count;
+      call.progress = (): TransferProgress => ({ bytes: counter.count() });
+    } else {
+      call.bytesTransferred = (): Promise<number | undefined> => fileSize(source);
+    }
+    return call;
+  };
+}
+
+/**
+ * Describes a transfer with fastPut() or fastGet(). Progress is read through the step
+ * option, which is chained to the caller's step function.
+ * @param operation - The logged operation
+ * @returns Describes a call of the method
+ */
+function describeFastTransfer(operation: 'upload' | 'download'): (args: unknown[]) => SftpCall {
+  return ([fromPath, toPath, options, ...rest]) => {
+    const transferred: TransferProgress = { bytes: 0 };
+    const step = isObject(options) ? options.step : undefined;
+    const trackedOptions = {
+      ...(isObject(options) && options),
+      step: (total: number, chunk: number, size: number): void => {
+        transferred.bytes = total;
+        transferred.total = size;
+        if (typeof step === 'function') {
+          (step as Method)(total, chunk, size);
+        }
+      },
+    };
+    return {
+      operation,
+      path: String(operation === 'upload' ? toPath : fromPath),
+      args: [fromPath, toPath, trackedOptions, ...rest],
+      bytesTransferred: () => fileSize(operation === 'upload' ? fromPath : toPath),
+      progress: () => transferred,
+    };
+  };
+}
+
+function isWritable(value: unknown): value is Writable {
+  return isObject(value) && typeof value.write === 'function' && typeof value.once === 'function';
+}
+
+/**
+ * Counts the bytes piped into a writable stream. The stream is left in place, so the
+ * client still waits for it to finish and resolves with it.
+ * @param destination - The stream the client will pipe into
+ * @returns A function returning the bytes counted so far
+ */
+function countPipedBytes(destination: Writable): () => number {
+  let bytes = 0;
+  destination.once('pipe', (source: Readable) => {
+    source.on('data', (chunk: Buffer | string) => {
+      bytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+    });
+  });
+  return () => bytes;
+}
+
+/**
+ * Describes a download with get(): without a destination the file is returned as a Buffer,
+ * otherwise it is written to a local path or piped into a writable stream
+ * @param args - Arguments of the call
+ * @returns The call description
+ */
+function describeGet(args: unknown[]): SftpCall {
+  const [remotePath, destination] = args;
+  const call: SftpCall = {
+    operation: 'download',
+    path: String(remotePath),
+    args,
+    bytesTransferred: (result): number | undefined | Promise<number | undefined> =>
+      Buffer.isBuffer(result) ? result.length : fileSize(destination),
+  };
+  if (isWritable(destination)) {
+    const count = countPipedBytes(destination);
+    call.bytesTransferred = count;
+    call.progress = (): TransferProgress => ({ bytes: count() });
+  }
+  return call;
+}
+
+/**
+ * Describes the calls of each instrumented ssh2-sftp-client method
+ */
+const SFTP_METHODS: Record<string, (args: unknown[]) => SftpCall> = {
+  put: describeUpload('upload'),
+  append: describeUpload('append'),
+  get: describeGet,
+  fastPut: describeFastTransfer('upload'),
+  fastGet: describeFastTransfer('download'),
+  list: args => ({
+    operation: 'list',
+    path: String(args[0]),
+    args,
+    filesListed: result => (Array.isArray(result) ? result.length : undefined),
+  }),
+  delete: args => ({ operation: 'delete', path: String(args[0]), args }),
+  rename: args => ({
+    operation: 'rename',
+    path: String(args[1]),
+    sourcePath: String(args[0]),
+    args,
+  }),
+  stat: args => ({ operation: 'stat', path: String(args[0]), args }),
+  exists: args => ({ operation: 'exists', path: String(args[0]), args }),
+  mkdir: args => ({ operation: 'mkdir', path: String(args[0]), args }),
+  rmdir: args => ({ operation: 'rmdir', path: String(args[0]), args }),
+  chmod: args => ({ operation: 'chmod', path: String(args[0]), args }),
+};
+
+/**
+ * Logs progress entries of a running transfer at a fixed interval, with the bytes
+ * transferred so far and the rate since the previous entry. A stalled transfer keeps
+ * logging entries with a rate of 0.
+ * @param call - The transfer
+ * @param progress - Reads the bytes transferred so far
+ * @param startTime - Start time of the transfer
+ * @param log - Logs the progress entries
+ * @param options - Host, user name and progress interval
+ * @returns A function that stops the progress entries
+ */
+function reportProgress(
+  call: SftpCall,
+  progress: () => TransferProgress,
+  startTime: number,
+  log: SftpLogger,
+  options: SftpInstrumentationOptions
+): () => void {
+  const interval = options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL;
+  if (interval <= 0) {
+    return () => undefined;
+  }
+
+  let previous = { bytes: 0, time: startTime };
+  const timer = setInterval(() => {
+    const { bytes, total } = progress();
+    const now = Date.now();
+    const bytesPerSecond = Math.round(
+      ((bytes - previous.bytes) * 1000) / (now - previous.time || 1)
+    );
+    previous = { bytes, time: now };
+    log(
+      {
+        host: options.host,
+        username: options.username,
+        operation: call.operation,
+        path: call.path,
+        status: 'in_progress',
+        bytesTransferred: bytes,
+        ...(total !== undefined && { totalBytes: total }),
+        bytesPerSecond,
+      },
+      { duration: now - startTime }
+    );
+  }, interval);
+  // Progress entries must not keep the process alive
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Wraps a client method so that every call is logged once its promise settles. The caller
+ * gets the original outcome first; sizes that need a local stat are logged afterwards, and
+ * logging failures never reach the caller.
+ * @param describe - Describes a call of the method
+ * @param log - Logs the finished operation
+ * @param options - Host and user name to log
+ * @returns Builds the replacement method
+ */
+function trackOperations(
+  describe: (args: unknown[]) => SftpCall,
+  log: SftpLogger,
+  options: SftpInstrumentationOptions
+): (original: Method) => Method {
+  return original =>
+    function (this: unknown, ...args: unknown[]): unknown {
+      const call = describe(args);
+      const startTime = Date.now();
+      const stopProgress = call.progress
+        ? reportProgress(call, call.progress, startTime, log, options)
+        : (): void => undefined;
+      const done = (error: unknown, result?: unknown): void => {
+        stopProgress();
+        const duration = Date.now() - startTime;
+        const failed = error !== undefined;
+        const write = (bytesTransferred: number | undefined): void => {
+          try {
+            const filesListed = failed ? undefined : call.filesListed?.(result);
+            log(
+              {
+                host: options.host,
+                username: options.username,
+                operation: call.operation,
+                path: call.path,
+                status: failed ? 'failure' : 'success',
+                ...(bytesTransferred !== undefined && { bytesTransferred }),
+                ...(filesListed !== undefined && { filesListed }),
+                ...(call.sourcePath !== undefined && { sourcePath: call.sourcePath }),
+              },
+              { duration, ...(failed && { error: toError(error) }) }
+            );
+          } catch {
+            // Logging must not change the outcome of the SFTP operation
+          }
+        };
+
+        try {
+          const bytesTransferred = failed ? undefined : call.bytesTransferred?.(result);
+          if (isThenable(bytesTransferred)) {
+            bytesTransferred.then(write, () => write(undefined));
+          } else {
+            write(bytesTransferred);
+          }
+        } catch {
+          write(undefined);
+        }
+      };
+
+      let result: unknown;
+      try {
+        result = original.apply(this, call.args);
+      } catch (error) {
+        done(error);
+        throw error;
+      }
+      if (!isThenable(result)) {
+        return result;
+      }
+      return result.then(
+        value => {
+          done(undefined, value);
+          return value;
+        },
+        (error: unknown) => {
+          done(error ?? new Error('SFTP operation failed'));
+          throw error;
+        }
+      );
+    };
+}
+
+/**
+ * Instruments put, append, get, fastPut, fastGet, list, delete, rename, stat, exists,
+ * mkdir, rmdir and chmod of an ssh2-sftp-client instance
+ * @param client - The client
+ * @param log - Logs finished operations
+ * @param options - Host and user name to log, and the progress interval
+ * @returns A function that removes the instrumentation
+ */
+export function instrumentSftpClient(
+  client: object,
+  log: SftpLogger,
+  options: SftpInstrumentationOptions
+): () => void {
+  const restores = Object.entries(SFTP_METHODS).map(([method, describe]) =>
+    wrapMethod(client as Record<string, unknown>, method, trackOperations(describe, log, options))
+  );
+  return () => restores.forEach(restore => restore());
+}
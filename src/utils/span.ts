@@ -0,0 +1,86 @@
+/**
+ * Span model for timing nested operations within a trace
+ */
+import { SpanLog, SpanStatus } from '../types';
+import { traceContext } from './trace-context';
+
+/**
+ * A timed operation within a trace. Spans started while another span is active
+ * become its children, so the logs of one workflow run can be rebuilt as a tree.
+ */
+export class Span {
+  public readonly name: string;
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId?: string;
+  public readonly startTime: number;
+  public readonly attributes: Record<string, unknown>;
+  public endTime?: number;
+  public status?: SpanStatus;
+
+  private onEnd: (span: Span, error?: Error) => SpanLog;
+
+  /**
+   * Creates a new Span. Use UnnboundLogger.startSpan() rather than calling this directly.
+   * @param fields - Identity and initial attributes of the span
+   * @param onEnd - Called once when the span ends, to log it
+   */
+  constructor(
+    fields: {
+      name: string;
+      traceId: string;
+      spanId: string;
+      parentSpanId?: string;
+      attributes?: Record<string, unknown>;
+    },
+    onEnd: (span: Span, error?: Error) => SpanLog
+  ) {
+    this.name = fields.name;
+    this.traceId = fields.traceId;
+    this.spanId = fields.spanId;
+    this.parentSpanId = fields.parentSpanId;
+    this.attributes = { ...fields.attributes };
+    this.startTime = Date.now();
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Sets an attribute recorded when the span ends
+   * @param key - Attribute name
+   * @param value - Attribute value
+   * @returns The span, for chaining
+   */
+  setAttribute(key: string, value: unknown): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /**
+   * Runs a function with this span active. Logs written inside the function carry
+   * this span's ID, and spans started inside it become its children.
+   * @param fn - Function to run
+   * @returns The return value of the function
+   */
+  run<T>(fn: () => T): T {
+    return traceContext.extend(
+      { traceId: this.traceId, spanId: this.spanId, parentSpanId: this.parentSpanId },
+      fn
+    );
+  }
+
+  /**
+   * Ends the span and logs it. Calls after the first are ignored.
+   * @param status - Outcome of the operation (default: 'ok')
+   * @param error - Optional error that caused a failure
+   * @returns The span log, or undefined if the span had already ended
+   */
+  end(status: SpanStatus = 'ok', error?: Error): SpanLog | undefined {
+    if (this.endTime !== undefined) {
+      return undefined;
+    }
+
+    this.endTime = Date.now();
+    this.status = status;
+    return this.onEnd(this, error);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Automatic object storage transaction logging for the AWS SDK v3 S3 client and
+ * S3-compatible services. The logging is added as a middleware to the client's
+ * middleware stack, so the SDK is not a dependency of the logger.
+ */
+import { StorageOperation, StorageTransactionLogOptions } from '../types';
+import { isObject, toError } from './instrumentation';
+
+/**
+ * Logs a finished storage operation, e.g. UnnboundLogger.storageTransaction
+ */
+export type StorageLogger = (
+  operation: StorageOperation,
+  options: StorageTransactionLogOptions
+) => void;
+
+/**
+ * Name of the middleware in the client's middleware stack
+ */
+export const STORAGE_MIDDLEWARE_NAME = 'unnboundStorageTransactionMiddleware';
+
+/**
+ * Arguments and result of an AWS SDK v3 command, as seen by a middleware
+ */
+interface CommandArgs {
+  input: Record<string, unknown>;
+}
+
+interface CommandResult {
+  output: Record<string, unknown>;
+}
+
+type Handler = (args: CommandArgs) => Promise<CommandResult>;
+
+/**
+ * An AWS SDK v3 initialize-step middleware
+ */
+export type StorageMiddleware = (next: Handler, context: { commandName?: string }) => Handler;
+
+/**
+ * An AWS SDK v3 client, such as S3Client
+ */
+export interface StorageClient {
+  middlewareStack: {
+    add(middleware: StorageMiddleware, options: { step: string; name: string }): void;
+    remove(name: string): boolean;
+  };
+}
+
+/**
+ * Logged operation of each S3 command; other commands are not logged
+ */
+const STORAGE_COMMANDS: Record<string, StorageOperation['operation']> = {
+  PutObjectCommand: 'put',
+  GetObjectCommand: 'get',
+  ListObjectsCommand: 'list',
+  ListObjectsV2Command: 'list',
+  DeleteObjectCommand: 'delete',
+  DeleteObjectsCommand: 'delete',
+  CopyObjectCommand: 'copy',
+  CreateMultipartUploadCommand: 'multipart',
+  UploadPartCommand: 'multipart',
+  UploadPartCopyCommand: 'multipart',
+  CompleteMultipartUploadCommand: 'multipart',
+  AbortMultipartUploadCommand: 'multipart',
+};
+
+function getString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Gets the size of a request body that is already in memory
+ * @param input - Command input
+ * @returns The size in bytes, the declared ContentLength for streams, or undefined
+ */
+function getBodySize(input: Record<string, unknown>): number | undefined {
+  const body = input.Body;
+  if (typeof body === 'string') {
+    return Buffer.byteLength(body);
+  }
+  if (body instanceof Uint8Array) {
+    return body.byteLength;
+  }
+  return typeof input.ContentLength === 'number' ? input.ContentLength : undefined;
+}
+
+/**
+ * Parses the CopySource of a copy, e.g. 'source-bucket/path/to/key?versionId=1'
+ * @param copySource - The CopySource input
+ * @returns The source bucket and key
+ */
+function parseCopySource(copySource: string): Pick<StorageOperation, 'sourceBucket' | 'sourceKey'> {
+  const [path] = decodeURIComponent(copySource).replace(/^\//, '').split('?');
+  const separator = path.indexOf('/');
+  return separator === -1
+    ? { sourceBucket: path }
+    : { sourceBucket: path.slice(0, separator), sourceKey: path.slice(separator + 1) };
+}
+
+/**
+ * Reads the details of a successful command from its input and output
+ * @param operation - The logged operation
+ * @param input - Command input
+ * @param output - Command output
+ * @returns Bytes transferred, entity tag and objects listed, where they apply
+ */
+function getResultDetails(
+  operation: StorageOperation['operation'],
+  input: Record<string, unknown>,
+  output: Record<string, unknown>
+): Pick<StorageOperation, 'bytesTransferred' | 'etag' | 'objectsListed'> {
+  const copyResult = output.CopyObjectResult ?? output.CopyPartResult;
+  const etag =
+    getString(output.ETag) ?? (isObject(copyResult) ? getString(copyResult.ETag) : undefined);
+  const bytesTransferred =
+    operation === 'get'
+      ? typeof output.ContentLength === 'number'
+        ? output.ContentLength
+        : undefined
+      : getBodySize(input);
+  // Empty listings have no Contents
+  const objectsListed = Array.isArray(output.Contents) ? output.Contents.length : 0;
+
+  return {
+    ...(bytesTransferred !== undefined && { bytesTransferred }),
+    // S3 returns entity tags in quotes
+    ...(etag && { etag: etag.replace(/"/g, '') }),
+    ...(operation === 'list' && { objectsListed }),
+  };
+}
+
+/**
+ * Creates an AWS SDK v3 middleware that logs S3 object commands
+ * @param log - Logs finished operations
+ * @returns The middleware, to be added at the initialize step
+ */
+export function createStorageMiddleware(log: StorageLogger): StorageMiddleware {
+  return (next, context) => async args => {
+    const operation = context.commandName && STORAGE_COMMANDS[context.commandName];
+    if (!operation) {
+      return next(args);
+    }
+
+    const { input } = args;
+    const key = getString(input.Key);
+    const copySource = getString(input.CopySource);
+    const details: StorageOperation = {
+      bucket: getString(input.Bucket) || '',
+      ...(key !== undefined && { key }),
+      operation,
+      status: 'success',
+      ...(copySource && parseCopySource(copySource)),
+    };
+    const startTime = Date.now();
+
+    const write: StorageLogger = (entry, options) => {
+      try {
+        log(entry, options);
+      } catch {
+        // Logging must not change the outcome of the S3 command
+      }
+    };
+
+    let result: Awaited<ReturnType<typeof next>>;
+    try {
+      result = await next(args);
+    } catch (error) {
+      write({ ...details, status: 'failure' }, { startTime, error: toError(error) });
+      throw error;
+    }
+    write(
+      { ...details, ...getResultDetails(operation, input, result.output || {}) },
+      { startTime }
+    );
+    return result;
+  };
+}
+
+/**
+ * Adds storage transaction logging to an AWS SDK v3 S3 client
+ * @param client - The S3Client
+ * @param log - Logs finished operations
+ * @returns A function that removes the middleware
+ */
+export function instrumentStorageClient(client: StorageClient, log: StorageLogger): () => void {
+  client.middlewareStack.add(createStorageMiddleware(log), {
+    step: 'initialize',
+    name: STORAGE_MIDDLEWARE_NAME,
+  });
+  return () => {
+    client.middlewareStack.remove(STORAGE_MIDDLEWARE_NAME);
+  };
+}
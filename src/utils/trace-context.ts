@@ -1,6 +1,8 @@
 import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { LogContext } from '../types';
 
-interface TraceContext {
+export interface TraceContext extends LogContext {
   traceId: string;
 }
 
@@ -19,8 +21,35 @@ class TraceContextManager {
     return TraceContextManager.instance;
   }
 
-  public run<T>(traceId: string, callback: () => T): T {
-    return this.storage.run({ traceId }, callback);
+  /**
+   * Runs a callback with a fresh context, replacing any active one
+   * @param context - A trace ID, or the full context to store
+   * @param callback - Function to run inside the context
+   */
+  public run<T>(context: string | TraceContext, callback: () => T): T {
+    return this.storage.run(typeof context === 'string' ? { traceId: context } : context, callback);
+  }
+
+  /**
+   * Runs a callback with the given fields merged over the active context.
+   * A trace ID is generated when neither the fields nor the active context provide one.
+   * @param fields - Context fields to add or override
+   * @param callback - Function to run inside the extended context
+   */
+  public extend<T>(fields: LogContext, callback: () => T): T {
+    const current = this.storage.getStore();
+    const bindings = { ...current?.bindings, ...fields.bindings };
+    const context: TraceContext = {
+      ...current,
+      ...fields,
+      traceId: fields.traceId || current?.traceId || uuidv4(),
+      ...(Object.keys(bindings).length > 0 && { bindings }),
+    };
+    return this.storage.run(context, callback);
+  }
+
+  public getContext(): TraceContext | undefined {
+    return this.storage.getStore();
   }
 
   public getTraceId(): string | undefined {
@@ -29,4 +58,4 @@ class TraceContextManager {
   }
 }
 
-export const traceContext = TraceContextManager.getInstance();
\ No newline at end of file
+export const traceContext = TraceContextManager.getInstance();
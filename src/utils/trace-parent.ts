@@ -0,0 +1,83 @@
+/**
+ * Utility functions for W3C Trace Context (traceparent/tracestate) propagation
+ */
+import { randomBytes } from 'crypto';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+
+/**
+ * Parsed fields of a W3C traceparent header
+ */
+export interface TraceParent {
+  version: string;
+  traceId: string;
+  parentId: string;
+  traceFlags: string;
+}
+
+const TRACEPARENT_REGEX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parses a traceparent header value
+ * @param header - The raw header value
+ * @returns The parsed fields, or undefined if the header is missing or invalid
+ */
+export function parseTraceParent(header: string | undefined): TraceParent | undefined {
+  if (!header) return undefined;
+
+  const match = TRACEPARENT_REGEX.exec(header.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, version, traceId, parentId, traceFlags, extra] = match;
+  // Version ff is forbidden, and version 00 allows no trailing fields
+  if (version === 'ff' || (version === '00' && extra)) return undefined;
+  if (traceId === INVALID_TRACE_ID || parentId === INVALID_SPAN_ID) return undefined;
+
+  return { version, traceId, parentId, traceFlags };
+}
+
+/**
+ * Converts a trace ID to the 32 hex character W3C form. UUID trace IDs are
+ * converted by removing their hyphens.
+ * @param traceId - The trace ID to convert
+ * @returns The W3C trace ID, or undefined if the trace ID cannot be represented
+ */
+export function toW3cTraceId(traceId: string): string | undefined {
+  const hex = traceId.replace(/-/g, '').toLowerCase();
+  return /^[0-9a-f]{32}$/.test(hex) && hex !== INVALID_TRACE_ID ? hex : undefined;
+}
+
+/**
+ * Formats a traceparent header value
+ * @param traceId - The trace ID (W3C or UUID form)
+ * @param spanId - The 16 hex character ID of the calling span
+ * @param traceFlags - The trace flags (default: '01', sampled)
+ * @returns The header value, or undefined if the trace ID cannot be represented
+ */
+export function formatTraceParent(
+  traceId: string,
+  spanId: string,
+  traceFlags = '01'
+): string | undefined {
+  const w3cTraceId = toW3cTraceId(traceId);
+  return w3cTraceId ? `00-${w3cTraceId}-${spanId}-${traceFlags}` : undefined;
+}
+
+/**
+ * Generates a random 32 hex character W3C trace ID
+ * @returns A new trace ID
+ */
+export function generateW3cTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generates a random 16 hex character span ID
+ * @returns A new span ID
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
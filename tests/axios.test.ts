@@ -0,0 +1,111 @@
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+
+type RetryConfig = InternalAxiosRequestConfig & { 'axios-retry'?: { retryCount: number } };
+
+function respond(status: number, data: unknown): AxiosAdapter {
+  return async config => {
+    const response = { status, statusText: '', data, headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError('Request failed', undefined, config, undefined, response);
+    }
+    return response;
+  };
+}
+
+describe('instrumentAxios', () => {
+  let logger: UnnboundLogger;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should log requests and responses of the given instance', async () => {
+    const adapter = jest.fn(respond(200, { ok: true }));
+    const instance = axios.create({ baseURL: 'https://api.example.com', adapter });
+    logger.instrumentAxios(instance);
+
+    await traceContext.run('trace-1', () => instance.get('/orders'));
+
+    expect(adapter.mock.calls[0][0].headers.get('unnbound-trace-id')).toBe('trace-1');
+    const [requestLog, responseLog] = infoSpy.mock.calls.map(([entry]) => entry);
+    expect(requestLog).toMatchObject({
+      type: 'httpRequest',
+      httpRequest: { url: 'https://api.example.com/orders', method: 'GET' },
+    });
+    expect(responseLog).toMatchObject({
+      type: 'httpResponse',
+      requestId: requestLog.requestId,
+      httpResponse: { status: 200, body: { ok: true } },
+    });
+    expect(requestLog.httpRequest).not.toHaveProperty('attempt');
+  });
+
+  test('should not touch other instances and should uninstall', async () => {
+    const instance = axios.create({ adapter: respond(200, {}) });
+    const other = axios.create({ adapter: respond(200, {}) });
+    const uninstall = logger.instrumentAxios(instance);
+
+    await other.get('https://api.example.com/other');
+    expect(infoSpy).not.toHaveBeenCalled();
+
+    uninstall();
+    await instance.get('https://api.example.com/orders');
+    expect(infoSpy).not.toHaveBeenCalled();
+  });
+
+  test('should log each retry attempt under the same requestId', async () => {
+    const adapter = jest
+      .fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>()
+      .mockImplementationOnce(respond(503, 'busy'))
+      .mockImplementationOnce(respond(200, { ok: true }));
+    const instance = axios.create({ adapter });
+    logger.instrumentAxios(instance);
+
+    // Minimal axios-retry: resend the same config once with an incremented retry count
+    instance.interceptors.request.use(config => {
+      const retryConfig = config as RetryConfig;
+      retryConfig['axios-retry'] = retryConfig['axios-retry'] || { retryCount: 0 };
+      return config;
+    });
+    instance.interceptors.response.use(undefined, (error: AxiosError) => {
+      const config = error.config as RetryConfig;
+      config['axios-retry']!.retryCount += 1;
+      return instance.request(config);
+    });
+
+    await instance.get('https://api.example.com/orders');
+
+    const requestLogs = infoSpy.mock.calls
+      .map(([entry]) => entry)
+      .filter(entry => entry.type === 'httpRequest');
+    expect(requestLogs.map(entry => entry.httpRequest.attempt)).toEqual([1, 2]);
+    expect(requestLogs[1].requestId).toBe(requestLogs[0].requestId);
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      requestId: requestLogs[0].requestId,
+      httpResponse: { status: 503, attempt: 1 },
+    });
+    expect(infoSpy.mock.calls[2][0]).toMatchObject({
+      requestId: requestLogs[0].requestId,
+      httpResponse: { status: 200, attempt: 2 },
+    });
+  });
+
+  test('should support the legacy __retryCount field', async () => {
+    const instance = axios.create({ adapter: respond(200, {}) });
+    logger.instrumentAxios(instance);
+
+    await instance.request({ url: 'https://api.example.com/orders', __retryCount: 2 } as any);
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ httpRequest: { attempt: 3 } });
+  });
+});
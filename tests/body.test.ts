@@ -0,0 +1,146 @@
+import { Readable } from 'stream';
+import { Request, Response } from 'express';
+import { UnnboundLogger } from '../src';
+import { captureBody } from '../src/utils/body';
+
+const options = { maxBytes: 32, skipContentTypes: [] };
+
+function createRequest(overrides: Record<string, unknown> = {}): Request {
+  return {
+    method: 'POST',
+    path: '/orders',
+    originalUrl: '/orders',
+    headers: { 'content-type': 'application/json' },
+    body: { id: 1 },
+    ip: '127.0.0.1',
+    get: jest.fn(),
+    ...overrides,
+  } as unknown as Request;
+}
+
+describe('captureBody', () => {
+  test('should parse bodies within the limit', () => {
+    expect(captureBody('{"id":1}', 'application/json', options)).toEqual({ id: 1 });
+    expect(captureBody({ id: 1 }, undefined, options)).toEqual({ id: 1 });
+    expect(captureBody(undefined, undefined, options)).toBeUndefined();
+  });
+
+  test('should truncate bodies larger than maxBytes', () => {
+    const body = { items: 'x'.repeat(100) };
+
+    expect(captureBody(body, 'application/json', options)).toEqual({
+      truncated: true,
+      originalSize: JSON.stringify(body).length,
+      preview: JSON.stringify(body).slice(0, 32),
+    });
+    expect(captureBody('€'.repeat(20), 'text/plain', options)).toMatchObject({
+      truncated: true,
+      originalSize: 60,
+    });
+    // The beginning of a body of unknown size
+    expect(captureBody('x'.repeat(33), 'text/plain', options, undefined, true)).toEqual({
+      truncated: true,
+      preview: 'x'.repeat(32),
+    });
+  });
+
+  test('should omit binary and multipart bodies', () => {
+    expect(captureBody(Buffer.alloc(1000), 'application/json', options)).toEqual({
+      omitted: true,
+      contentType: 'application/json',
+      originalSize: 1000,
+    });
+    expect(captureBody('--boundary', 'multipart/form-data; boundary=x', options)).toEqual({
+      omitted: true,
+      contentType: 'multipart/form-data; boundary=x',
+    });
+    expect(captureBody('PNG', 'image/png', options)).toMatchObject({ omitted: true });
+    expect(
+      captureBody('a,b', 'text/csv', { ...options, skipContentTypes: ['text/csv'] })
+    ).toMatchObject({ omitted: true });
+  });
+
+  test('should summarise streams without reading them', () => {
+    const stream = Readable.from(['chunk']);
+
+    expect(captureBody(stream, 'text/plain', options)).toEqual({
+      stream: true,
+      contentType: 'text/plain',
+    });
+    expect(stream.readableFlowing).toBeNull();
+  });
+
+  test('should capture bodies without the FormData and Blob globals (Node < 18)', () => {
+    const globals = globalThis as Record<string, unknown>;
+    const { FormData, Blob } = globals;
+    delete globals.FormData;
+    delete globals.Blob;
+    try {
+      expect(captureBody({ id: 1 }, 'application/json', options)).toEqual({ id: 1 });
+      expect(captureBody(Buffer.alloc(10), undefined, options)).toEqual({
+        omitted: true,
+        originalSize: 10,
+      });
+    } finally {
+      Object.assign(globals, { FormData, Blob });
+    }
+  });
+});
+
+describe('UnnboundLogger body capture', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should truncate large request bodies by default', () => {
+    const logger = new UnnboundLogger();
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.httpRequest(createRequest({ body: { export: 'x'.repeat(100 * 1024) } }));
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      httpRequest: { body: { truncated: true, originalSize: 100 * 1024 + 13 } },
+    });
+  });
+
+  test('should apply maxBytes and content types to response bodies', () => {
+    const logger = new UnnboundLogger({ body: { maxBytes: 10 } });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const req = createRequest();
+
+    logger.httpResponse(
+      {
+        statusCode: 200,
+        locals: { body: 'a long response body' },
+        getHeaders: () => ({ 'content-type': 'text/plain' }),
+      } as unknown as Response,
+      req
+    );
+    logger.httpResponse(
+      {
+        statusCode: 200,
+        locals: { body: Buffer.from('%PDF') },
+        getHeaders: () => ({ 'Content-Type': 'application/pdf' }),
+      } as unknown as Response,
+      req
+    );
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      httpResponse: { body: { truncated: true, originalSize: 20, preview: 'a long res' } },
+    });
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({
+      httpResponse: { body: { omitted: true, contentType: 'application/pdf', originalSize: 4 } },
+    });
+  });
+
+  test('should not capture bodies of ignored routes', () => {
+    const logger = new UnnboundLogger({ body: { ignoreRoutes: ['/exports/*'] } });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.httpRequest(createRequest({ path: '/exports/orders', body: { secret: true } }));
+    logger.httpRequest(createRequest());
+
+    expect((infoSpy.mock.calls[0][0] as any).httpRequest.body).toBeUndefined();
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({ httpRequest: { body: { id: 1 } } });
+  });
+});
@@ -0,0 +1,107 @@
+import { Writable } from 'stream';
+import pino from 'pino';
+import { UnnboundLogger } from '../src';
+
+describe('Child loggers', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should merge bindings into general log data', () => {
+    const logger = new UnnboundLogger();
+    const child = logger.child({ jobId: 'job-1', customerId: 'cust-1' });
+    const infoSpy = jest.spyOn(child['logger'], 'info').mockImplementation(() => undefined);
+
+    child.info('Processing', { step: 'fetch' });
+
+    expect(child).toBeInstanceOf(UnnboundLogger);
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      type: 'general',
+      data: { jobId: 'job-1', customerId: 'cust-1', step: 'fetch' },
+    });
+  });
+
+  test('should let call options override bindings', () => {
+    const child = new UnnboundLogger().child({ integration: 'erp' });
+    const infoSpy = jest.spyOn(child['logger'], 'info').mockImplementation(() => undefined);
+
+    child.info({ integration: 'crm' });
+
+    expect(infoSpy.mock.calls[0][0]).toHaveProperty('data', { integration: 'crm' });
+  });
+
+  test('should merge bindings into transaction logs', () => {
+    const child = new UnnboundLogger().child({ jobId: 'job-2' });
+    const infoSpy = jest.spyOn(child['logger'], 'info').mockImplementation(() => undefined);
+
+    child.dbQueryTransaction({ instance: 'db', vendor: 'postgres', status: 'success' });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      type: 'dbQueryTransaction',
+      data: { jobId: 'job-2' },
+    });
+  });
+
+  test('should accumulate bindings across nested children', () => {
+    const grandchild = new UnnboundLogger().child({ jobId: 'job-3' }).child({ fileName: 'a.csv' });
+    const infoSpy = jest.spyOn(grandchild['logger'], 'info').mockImplementation(() => undefined);
+
+    grandchild.info('Nested');
+
+    expect(infoSpy.mock.calls[0][0]).toHaveProperty('data', { jobId: 'job-3', fileName: 'a.csv' });
+  });
+
+  test('should not add bindings to the parent', () => {
+    const logger = new UnnboundLogger();
+    logger.child({ jobId: 'job-4' });
+    const infoSpy = jest.spyOn(logger['logger'], 'info').mockImplementation(() => undefined);
+
+    logger.info('Parent');
+
+    expect(infoSpy.mock.calls[0][0]).not.toHaveProperty('data');
+  });
+
+  test('should share the parent destination', () => {
+    const lines: string[] = [];
+    const stream = new Writable({
+      write(chunk, _encoding, callback): void {
+        lines.push(chunk.toString());
+        callback();
+      },
+    });
+    const logger = new UnnboundLogger();
+    // Swap in an in-memory destination before the child is created
+    logger['logger'] = pino({ base: {}, timestamp: false }, stream);
+
+    logger.child({ jobId: 'job-5' }).info('From child');
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toMatchObject({ data: { jobId: 'job-5' } });
+  });
+
+  test('should inherit the level and change it independently', () => {
+    const logger = new UnnboundLogger({ level: 'warn', typeLevels: { httpRequest: 'debug' } });
+    const child = logger.child({ jobId: 'job-6' });
+
+    expect(child.getLevel()).toBe('warn');
+    expect(child.getLevel('httpRequest')).toBe('debug');
+
+    child.setLevel('debug');
+
+    expect(child.isLevelEnabled('debug')).toBe(true);
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+    expect(logger['logger'].level).toBe('debug');
+  });
+
+  test('should inherit environment fields from the parent', () => {
+    process.env.UNNBOUND_SERVICE_ID = 'svc-parent';
+    const logger = new UnnboundLogger();
+    delete process.env.UNNBOUND_SERVICE_ID;
+
+    const child = logger.child({});
+    const infoSpy = jest.spyOn(child['logger'], 'info').mockImplementation(() => undefined);
+    child.info('Env');
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ serviceId: 'svc-parent' });
+  });
+});
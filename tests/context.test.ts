@@ -0,0 +1,140 @@
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+import { Request, Response } from 'express';
+
+describe('Request context', () => {
+  let logger: UnnboundLogger;
+  let infoSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    infoSpy = jest.spyOn(logger['logger'], 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should read traceId and requestId from the context', () => {
+    traceContext.run({ traceId: 'trace-1', requestId: 'request-1' }, () => {
+      logger.info('First');
+      logger.info('Second');
+    });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: 'trace-1', requestId: 'request-1' });
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({ traceId: 'trace-1', requestId: 'request-1' });
+  });
+
+  test('should still accept a plain traceId in traceContext.run', () => {
+    traceContext.run('trace-only', () => logger.info('Message'));
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: 'trace-only' });
+    expect(infoSpy.mock.calls[0][0].requestId).toEqual(expect.any(String));
+  });
+
+  test('should add context fields and bindings with withContext', () => {
+    logger.withContext(
+      {
+        workflowId: 'wf-ctx',
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        bindings: { jobId: 'job-9' },
+      },
+      () => logger.info('Inside', { step: 2 })
+    );
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      workflowId: 'wf-ctx',
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+      data: { jobId: 'job-9', step: 2 },
+    });
+  });
+
+  test('should generate a shared traceId when withContext starts a new context', () => {
+    logger.withContext({ userId: 'user-1' }, () => {
+      logger.info('One');
+      logger.info('Two');
+    });
+
+    const [first, second] = infoSpy.mock.calls.map(call => call[0]);
+    expect(first.traceId).toEqual(expect.any(String));
+    expect(second.traceId).toBe(first.traceId);
+  });
+
+  test('should merge nested contexts and keep them across async work', async () => {
+    await traceContext.run({ traceId: 'trace-2', requestId: 'request-2' }, () =>
+      logger.withContext({ bindings: { a: 1 } }, () =>
+        logger.withContext({ bindings: { b: 2 } }, async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          logger.info('Nested');
+        })
+      )
+    );
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      traceId: 'trace-2',
+      requestId: 'request-2',
+      data: { a: 1, b: 2 },
+    });
+  });
+
+  test('should let explicit options override the context', () => {
+    traceContext.run({ traceId: 'trace-3', requestId: 'request-3' }, () => {
+      logger.info('Override', { traceId: 'explicit-trace', requestId: 'explicit-request' });
+    });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      traceId: 'explicit-trace',
+      requestId: 'explicit-request',
+    });
+  });
+
+  test('should add context bindings to transaction logs', () => {
+    logger.withContext({ tenantId: 'tenant-2', bindings: { integration: 'erp' } }, () => {
+      logger.dbQueryTransaction({ instance: 'db', vendor: 'mysql', status: 'success' });
+      logger.sftpTransaction({
+        host: 'sftp',
+        username: 'user',
+        operation: 'stat',
+        path: '/file',
+        status: 'success',
+      });
+    });
+
+    for (const [entry] of infoSpy.mock.calls) {
+      expect(entry).toMatchObject({ tenantId: 'tenant-2', data: { integration: 'erp' } });
+    }
+  });
+
+  test('should reuse the middleware requestId for general logs in a request', async () => {
+    const res = {
+      statusCode: 200,
+      locals: {},
+      setHeader: jest.fn(),
+      getHeaders: jest.fn(() => ({})),
+      on: jest.fn(),
+      send: jest.fn(),
+    } as unknown as Response;
+    const req = {
+      method: 'GET',
+      path: '/orders',
+      originalUrl: '/orders',
+      headers: {},
+      header: jest.fn(),
+      get: jest.fn(),
+      protocol: 'http',
+      ip: '127.0.0.1',
+      res,
+    } as unknown as Request;
+
+    logger.traceMiddleware(req, res, () => {
+      logger.info('Handling order');
+    });
+
+    const [requestLog, generalLog] = infoSpy.mock.calls.map(call => call[0]);
+    expect(requestLog.type).toBe('httpRequest');
+    expect(generalLog.requestId).toBe(requestLog.requestId);
+    expect(generalLog.traceId).toBe(requestLog.traceId);
+  });
+});
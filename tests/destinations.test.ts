@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UnnboundLogger } from '../src';
+
+function memoryStream(): { write(line: string): void; lines: () => any[] } {
+  const written: string[] = [];
+  return {
+    write: line => written.push(line),
+    lines: () => written.map(line => JSON.parse(line)),
+  };
+}
+
+describe('destinations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unnbound-logger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should write to an injected stream', () => {
+    const stream = memoryStream();
+    const logger = new UnnboundLogger({ destinations: [{ type: 'stream', stream }] });
+
+    logger.info('Hello', { orderId: 1 });
+
+    expect(stream.lines()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        type: 'general',
+        messages: 'Hello',
+        data: { orderId: 1 },
+      }),
+    ]);
+  });
+
+  test('should filter each destination by level and log type', () => {
+    const all = memoryStream();
+    const errors = memoryStream();
+    const queries = memoryStream();
+    const logger = new UnnboundLogger({
+      level: 'debug',
+      destinations: [
+        { type: 'stream', stream: all, level: 'info' },
+        { type: 'stream', stream: errors, level: 'error' },
+        { type: 'stream', stream: queries, types: ['dbQueryTransaction'] },
+      ],
+    });
+
+    logger.debug('Debugging');
+    logger.info('Started');
+    logger.error('Failed');
+    logger.dbQueryTransaction({
+      instance: 'db',
+      vendor: 'postgres',
+      query: 'SELECT 1',
+      status: 'success',
+    });
+
+    expect(all.lines().map(entry => entry.messages)).toEqual([
+      'Started',
+      'Failed',
+      'DB Query success - postgres',
+    ]);
+    expect(errors.lines().map(entry => entry.messages)).toEqual(['Failed']);
+    expect(queries.lines()).toEqual([
+      expect.objectContaining({ level: 'info', type: 'dbQueryTransaction' }),
+    ]);
+  });
+
+  test('should still apply the logger level and share destinations with children', () => {
+    const stream = memoryStream();
+    const logger = new UnnboundLogger({ destinations: [{ type: 'stream', stream }] });
+
+    logger.debug('Hidden');
+    logger.child({ jobId: 'job-1' }).warn('Slow');
+
+    expect(stream.lines()).toEqual([
+      expect.objectContaining({ messages: 'Slow', data: { jobId: 'job-1' } }),
+    ]);
+  });
+
+  test('should write to a file, creating its directory', async () => {
+    const file = path.join(dir, 'logs', 'app.log');
+    const logger = new UnnboundLogger({ destinations: [{ type: 'file', path: file }] });
+
+    logger.info('To file');
+    await logger.flush();
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toMatchObject({ messages: 'To file' });
+  });
+
+  test('should rotate files by size', async () => {
+    const file = path.join(dir, 'app.log');
+    const logger = new UnnboundLogger({
+      destinations: [{ type: 'file', path: file, rotate: { maxSize: 400, maxFiles: 2 } }],
+    });
+
+    for (let i = 0; i < 10; i++) {
+      logger.info(`Entry ${i}`);
+    }
+    await logger.flush();
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['app.log', 'app.log.1', 'app.log.2']);
+    const current = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(JSON.parse(current[current.length - 1]).messages).toBe('Entry 9');
+    for (const name of fs.readdirSync(dir)) {
+      expect(fs.statSync(path.join(dir, name)).size).toBeLessThanOrEqual(400);
+    }
+  });
+
+  test('should reject invalid destinations', () => {
+    expect(() => new UnnboundLogger({ destinations: [{ type: 'file' }] })).toThrow(
+      'File destinations require a path'
+    );
+    expect(() => new UnnboundLogger({ destinations: [{ type: 'stream' }] })).toThrow(
+      'Stream destinations require a stream'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { NextFunction, Request, Response } from 'express';
+import { UnnboundLogger } from '../src';
+
+interface TestResponse {
+  status: number;
+  body: string;
+}
+
+function startApp(logger: UnnboundLogger, respond: boolean): Promise<http.Server> {
+  const app = express();
+  app.use(logger.traceMiddleware);
+  app.get('/orders/:id', () => {
+    throw new Error('Order lookup failed');
+  });
+  app.get('/missing', () => {
+    throw Object.assign(new Error('No such thing'), { status: 404 });
+  });
+  app.use(respond ? logger.createErrorMiddleware({ respond: true }) : logger.errorMiddleware);
+  // Final handler that shows whether the error was passed on
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(599).send(`passed on: ${err.message}`);
+  });
+
+  return new Promise(resolve => {
+    const server = app.listen(0, () => resolve(server));
+  });
+}
+
+function get(server: http.Server, path: string): Promise<TestResponse> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    http
+      .get(`http://127.0.0.1:${port}${path}`, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body }));
+      })
+      .on('error', reject);
+  });
+}
+
+describe('errorMiddleware', () => {
+  let logger: UnnboundLogger;
+  let server: http.Server | undefined;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    infoSpy = jest.spyOn(logger['logger'], 'info').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(logger['logger'], 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(done => {
+    jest.restoreAllMocks();
+    if (server) {
+      server.close(() => done());
+      server = undefined;
+    } else {
+      done();
+    }
+  });
+
+  test('should log the error with request correlation and pass it on', async () => {
+    const app = (server = await startApp(logger, false));
+
+    const response = await get(app, '/orders/42');
+
+    expect(response).toEqual({ status: 599, body: 'passed on: Order lookup failed' });
+    const requestLog = infoSpy.mock.calls[0][0];
+    const errorLog = errorSpy.mock.calls
+      .map(([entry]) => entry)
+      .find(entry => entry.type === 'general');
+    expect(errorLog).toMatchObject({
+      traceId: requestLog.traceId,
+      requestId: requestLog.requestId,
+      error: { name: 'Error', message: 'Order lookup failed' },
+      data: { route: { method: 'GET', path: '/orders/:id' } },
+    });
+    expect(errorLog.error.stack).toContain('Order lookup failed');
+  });
+
+  test('should respond with a JSON error body when configured', async () => {
+    const app = (server = await startApp(logger, true));
+
+    const failed = await get(app, '/orders/42');
+    const missing = await get(app, '/missing');
+
+    const requestLog = infoSpy.mock.calls[0][0];
+    expect(failed.status).toBe(500);
+    expect(JSON.parse(failed.body)).toEqual({
+      error: 'Internal Server Error',
+      requestId: requestLog.requestId,
+      traceId: requestLog.traceId,
+    });
+    expect(missing.status).toBe(404);
+    expect(JSON.parse(missing.body)).toMatchObject({ error: 'Not Found' });
+  });
+
+  test('should wrap non-Error values', () => {
+    const next = jest.fn();
+    const req = {
+      method: 'GET',
+      path: '/x',
+      originalUrl: '/x',
+      get: jest.fn(),
+    } as unknown as Request;
+    const res = { locals: {}, headersSent: false } as unknown as Response;
+
+    logger.errorMiddleware('boom', req, res, next);
+
+    expect(next).toHaveBeenCalledWith('boom');
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({ error: { message: 'boom' } });
+  });
+});
@@ -0,0 +1,194 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('fetch instrumentation', () => {
+  let logger: UnnboundLogger;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger({ ignoreFetchTraceRoutes: ['/health'] });
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should inject trace headers and log the request and response', async () => {
+    const fetchImpl = jest.fn(
+      async (_input: string | URL | Request, _init?: RequestInit) =>
+        new Response('{"id":7}', { status: 201, headers: { 'content-type': 'application/json' } })
+    );
+    const instrumented = logger.wrapFetch(fetchImpl);
+
+    const response = await traceContext.run('trace-1', () =>
+      instrumented('https://api.example.com/orders', {
+        method: 'post',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sku: 'A-1' }),
+      })
+    );
+    await flush();
+
+    expect(await response.json()).toEqual({ id: 7 });
+    const headers = fetchImpl.mock.calls[0][1]!.headers as Headers;
+    expect(headers.get('unnbound-trace-id')).toBe('trace-1');
+    expect(headers.get('content-type')).toBe('application/json');
+
+    const [requestLog, responseLog] = infoSpy.mock.calls.map(([entry]) => entry);
+    expect(infoSpy.mock.calls[0][1]).toBe('Outgoing HTTP Request');
+    expect(requestLog).toMatchObject({
+      type: 'httpRequest',
+      traceId: 'trace-1',
+      httpRequest: {
+        url: 'https://api.example.com/orders',
+        method: 'POST',
+        ip: 'outgoing',
+        body: { sku: 'A-1' },
+      },
+    });
+    expect(responseLog).toMatchObject({
+      type: 'httpResponse',
+      traceId: 'trace-1',
+      requestId: requestLog.requestId,
+      httpResponse: { status: 201, method: 'POST', body: { id: 7 } },
+    });
+    expect(responseLog.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should log error responses and summarise binary bodies', async () => {
+    const instrumented = logger.wrapFetch(
+      async () =>
+        new Response(new Uint8Array([1, 2, 3]), {
+          status: 503,
+          headers: { 'content-type': 'application/octet-stream' },
+        })
+    );
+
+    await instrumented(new URL('https://api.example.com/files/1'));
+    await flush();
+
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      httpResponse: {
+        status: 503,
+        method: 'GET',
+        body: { stream: true, contentType: 'application/octet-stream' },
+      },
+    });
+  });
+
+  test('should read at most maxBytes of response bodies', async () => {
+    const limited = new UnnboundLogger({ body: { maxBytes: 1024 } });
+    const limitedInfoSpy: jest.SpyInstance = jest.spyOn(limited['logger'], 'info');
+    // 40MB of 64KB chunks, produced on demand
+    let chunksPulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller): void {
+        chunksPulled++;
+        controller.enqueue(new Uint8Array(64 * 1024).fill(97));
+        if (chunksPulled === 640) {
+          controller.close();
+        }
+      },
+    });
+    const instrumented = limited.wrapFetch(
+      async () => new Response(body, { headers: { 'content-type': 'text/plain' } })
+    );
+
+    const response = await instrumented('https://api.example.com/export');
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await flush();
+
+    expect(chunksPulled).toBeLessThan(5);
+    const { httpResponse } = limitedInfoSpy.mock.calls[1][0];
+    expect(httpResponse.body).toEqual({ truncated: true, preview: 'a'.repeat(1024) });
+  });
+
+  test('should not read event streams', async () => {
+    const events = new ReadableStream<Uint8Array>({
+      start(controller): void {
+        controller.enqueue(new TextEncoder().encode('data: {"id":1}\n\n'));
+      },
+    });
+    const instrumented = logger.wrapFetch(
+      async () => new Response(events, { headers: { 'content-type': 'text/event-stream' } })
+    );
+
+    const response = await instrumented('https://api.example.com/events');
+    await flush();
+
+    expect(infoSpy.mock.calls[1][0].httpResponse.body).toEqual({
+      stream: true,
+      contentType: 'text/event-stream',
+    });
+    expect(response.bodyUsed).toBe(false);
+    await response.body!.cancel();
+  });
+
+  test('should log network errors and rethrow them', async () => {
+    const instrumented = logger.wrapFetch(async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await expect(instrumented('https://down.example.com/')).rejects.toThrow('fetch failed');
+    expect(errorSpy.mock.calls[0][1]).toBe('HTTP Request Failed');
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      data: {
+        context: {
+          reason: 'No response received',
+          method: 'GET',
+          url: 'https://down.example.com/',
+        },
+        error: 'fetch failed',
+      },
+    });
+  });
+
+  test('should skip ignored routes', async () => {
+    const fetchImpl = jest.fn(async () => new Response('ok'));
+    const init = { headers: { accept: 'text/plain' } };
+
+    await logger.wrapFetch(fetchImpl)('https://api.example.com/health', init);
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.example.com/health', init);
+    expect(infoSpy).not.toHaveBeenCalled();
+  });
+
+  test('should instrument and restore the global fetch', async () => {
+    let receivedTraceId: string | undefined;
+    const server = http.createServer((req, res) => {
+      receivedTraceId = req.headers['unnbound-trace-id'] as string;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('pong');
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ping`;
+    const originalFetch = globalThis.fetch;
+
+    try {
+      const uninstall = logger.instrumentFetch();
+      const text = await traceContext.run('trace-2', async () => (await fetch(url)).text());
+      await flush();
+      uninstall();
+
+      expect(text).toBe('pong');
+      expect(receivedTraceId).toBe('trace-2');
+      expect(infoSpy.mock.calls[1][0]).toMatchObject({
+        httpResponse: { status: 200, body: 'pong' },
+      });
+      expect(globalThis.fetch).toBe(originalFetch);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { UnnboundLogger } from '../src';
+import { filterHeaders } from '../src/utils/logger-utils';
+import { Request, Response } from 'express';
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+
+const TOKEN = 'Bearer eyJhbGciOiJIUzI1NiJ9.payload.signature';
+
+describe('filterHeaders', () => {
+  test('should keep only the default allow-list without rules', () => {
+    expect(
+      filterHeaders({
+        'Content-Type': 'application/json',
+        authorization: TOKEN,
+        'x-tenant-id': 't1',
+      })
+    ).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  test('should extend the allow-list and apply the deny-list case-insensitively', () => {
+    const headers = {
+      'content-type': 'text/plain',
+      'user-agent': 'curl',
+      'X-Correlation-Id': 'c-1',
+      'x-tenant-id': 't1',
+    };
+
+    expect(
+      filterHeaders(headers, { allow: ['x-correlation-id', 'X-Tenant-Id'], deny: ['User-Agent'] })
+    ).toEqual({ 'content-type': 'text/plain', 'X-Correlation-Id': 'c-1', 'x-tenant-id': 't1' });
+  });
+
+  test('should log every header with a wildcard allow-list', () => {
+    expect(filterHeaders({ a: '1', b: 2 }, { allow: ['*'], deny: ['b'] })).toEqual({ a: '1' });
+  });
+
+  test('should mask header values', () => {
+    const headers = { authorization: TOKEN, 'x-api-key': 'key-1234567890', cookie: 'sid=abc' };
+
+    expect(
+      filterHeaders(headers, {
+        mask: { Authorization: 'scheme', 'x-api-key': 'partial', cookie: 'full' },
+      })
+    ).toEqual({
+      authorization: 'Bearer [REDACTED]',
+      'x-api-key': '[REDACTED]7890',
+      cookie: '[REDACTED]',
+    });
+    expect(filterHeaders({ 'x-api-key': 'short' }, { mask: { 'x-api-key': 'partial' } })).toEqual({
+      'x-api-key': '[REDACTED]',
+    });
+    expect(
+      filterHeaders(
+        { authorization: TOKEN },
+        { deny: ['authorization'], mask: { authorization: 'full' } }
+      )
+    ).toEqual({});
+  });
+});
+
+describe('UnnboundLogger header rules', () => {
+  const logger = new UnnboundLogger({
+    headers: {
+      request: { allow: ['x-tenant-id'], mask: { authorization: 'scheme' } },
+      response: { allow: ['x-ratelimit-remaining'] },
+      outgoing: { allow: ['x-correlation-id'], deny: ['content-type'] },
+    },
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should apply request and response rules to incoming traffic', () => {
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const req = {
+      method: 'GET',
+      originalUrl: '/orders',
+      headers: { authorization: TOKEN, 'x-tenant-id': 't1', 'x-correlation-id': 'c-1' },
+      ip: '127.0.0.1',
+      get: jest.fn(),
+    } as unknown as Request;
+    const res = {
+      statusCode: 200,
+      locals: {},
+      getHeaders: () => ({ 'x-ratelimit-remaining': '99', 'x-tenant-id': 't1' }),
+    } as unknown as Response;
+
+    logger.httpRequest(req);
+    logger.httpResponse(res, req);
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      httpRequest: { headers: { authorization: 'Bearer [REDACTED]', 'x-tenant-id': 't1' } },
+    });
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({
+      httpResponse: { headers: { 'x-ratelimit-remaining': '99' } },
+    });
+    expect(infoSpy.mock.calls[1][0]).not.toHaveProperty('httpResponse.headers.x-tenant-id');
+  });
+
+  test('should apply outgoing rules to Axios calls', () => {
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const config = {
+      url: 'https://api.example.com/orders',
+      method: 'post',
+      headers: new AxiosHeaders({
+        'Content-Type': 'application/json',
+        'X-Correlation-Id': 'c-1',
+        'X-Tenant-Id': 't1',
+      }),
+    } as InternalAxiosRequestConfig;
+
+    logger.axiosTraceMiddleware.onFulfilled(config);
+    logger.axiosResponseInterceptor.onFulfilled({
+      status: 200,
+      data: {},
+      headers: { 'x-correlation-id': 'c-1', 'content-type': 'application/json' },
+      config,
+    });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      httpRequest: { headers: { 'X-Correlation-Id': 'c-1' } },
+    });
+    expect(Object.keys((infoSpy.mock.calls[0][0] as any).httpRequest.headers)).toEqual([
+      'X-Correlation-Id',
+    ]);
+    expect((infoSpy.mock.calls[1][0] as any).httpResponse.headers).toEqual({
+      'x-correlation-id': 'c-1',
+    });
+  });
+});
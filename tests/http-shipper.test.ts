@@ -0,0 +1,166 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { UnnboundLogger } from '../src';
+import { HttpBatchOptions } from '../src/types';
+
+interface Stub {
+  url: string;
+  batches: any[][];
+  headers: http.IncomingHttpHeaders[];
+  close: () => Promise<void>;
+}
+
+// Local log endpoint that answers with the given statuses in turn, then 200
+function startStub(statuses: number[] = []): Promise<Stub> {
+  const batches: any[][] = [];
+  const headers: http.IncomingHttpHeaders[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const status = statuses.shift() ?? 200;
+      if (status === 200) {
+        batches.push(JSON.parse(body));
+        headers.push(req.headers);
+      }
+      res.statusCode = status;
+      res.end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/logs`,
+        batches,
+        headers,
+        close: () =>
+          new Promise(done => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+function createLogger(stub: Stub, batch: HttpBatchOptions): UnnboundLogger {
+  return new UnnboundLogger({
+    destinations: [
+      { type: 'http', url: stub.url, headers: { authorization: 'Bearer token' }, batch },
+    ],
+  });
+}
+
+function messages(batches: any[][]): string[][] {
+  return batches.map(batch => batch.map(entry => entry.messages));
+}
+
+describe('HTTP destination', () => {
+  let stub: Stub;
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  test('should send full batches immediately and the rest on flush', async () => {
+    stub = await startStub();
+    const logger = createLogger(stub, { maxBatchSize: 2, flushInterval: 60000 });
+
+    logger.info('one');
+    logger.info('two');
+    logger.info('three');
+    await logger.flush();
+
+    expect(messages(stub.batches)).toEqual([['one', 'two'], ['three']]);
+    expect(stub.headers[0]).toMatchObject({
+      authorization: 'Bearer token',
+      'content-type': 'application/json',
+    });
+    expect(stub.batches[0][0]).toMatchObject({ level: 'info', type: 'general' });
+  });
+
+  test('should send a partial batch after the flush interval', async () => {
+    stub = await startStub();
+    const logger = createLogger(stub, { flushInterval: 20 });
+
+    logger.info('waiting');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(messages(stub.batches)).toEqual([['waiting']]);
+  });
+
+  test('should send queued entries when the process runs out of work', async () => {
+    stub = await startStub();
+    const before = process.listeners('beforeExit');
+    const logger = createLogger(stub, { flushInterval: 60000 });
+
+    logger.info('before exit');
+    // Calls the shipper's listener directly; emitting the event would also reach Jest's own handlers
+    const listener = process.listeners('beforeExit').find(l => !before.includes(l))!;
+    listener(0);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(messages(stub.batches)).toEqual([['before exit']]);
+    expect(process.listeners('beforeExit')).toEqual(before);
+  });
+
+  test('should retry failed requests with backoff', async () => {
+    stub = await startStub([503, 500]);
+    const logger = createLogger(stub, { retryDelay: 5 });
+
+    logger.info('retried');
+    await logger.flush();
+
+    expect(messages(stub.batches)).toEqual([['retried']]);
+    expect(logger.getDroppedLogs()).toBe(0);
+  });
+
+  test('should count batches that still fail after all retries as dropped', async () => {
+    stub = await startStub([500, 500, 400]);
+    const logger = createLogger(stub, { maxRetries: 1, retryDelay: 5 });
+
+    logger.info('lost');
+    logger.info('also lost');
+    await logger.flush();
+    expect(logger.getDroppedLogs()).toBe(2);
+
+    // 400 responses are not retried
+    logger.info('rejected');
+    await logger.flush();
+    expect(logger.getDroppedLogs()).toBe(3);
+    expect(stub.batches).toEqual([]);
+  });
+
+  test('should drop the oldest entries when the queue is full', async () => {
+    stub = await startStub();
+    const logger = createLogger(stub, { maxQueueSize: 2, flushInterval: 60000 });
+
+    for (const message of ['a', 'b', 'c', 'd']) {
+      logger.info(message);
+    }
+    await logger.flush();
+
+    expect(messages(stub.batches)).toEqual([['c', 'd']]);
+    expect(logger.getDroppedLogs()).toBe(2);
+  });
+
+  test('should drop new entries with the newest drop policy', async () => {
+    stub = await startStub();
+    const logger = createLogger(stub, {
+      maxQueueSize: 2,
+      flushInterval: 60000,
+      dropPolicy: 'newest',
+    });
+
+    for (const message of ['a', 'b', 'c', 'd']) {
+      logger.info(message);
+    }
+    await logger.flush();
+
+    expect(messages(stub.batches)).toEqual([['a', 'b']]);
+    expect(logger.getDroppedLogs()).toBe(2);
+  });
+});
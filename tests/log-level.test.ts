@@ -0,0 +1,114 @@
+import { UnnboundLogger } from '../src';
+import { parseLogLevel, lowestLogLevel } from '../src/utils/log-level';
+
+describe('Log levels', () => {
+  afterEach(() => {
+    delete process.env.UNNBOUND_LOG_LEVEL;
+    jest.restoreAllMocks();
+  });
+
+  test('should default to info and drop debug logs', () => {
+    const logger = new UnnboundLogger();
+    const debugSpy = jest.spyOn(logger['logger'], 'debug');
+
+    logger.debug('Hidden');
+
+    expect(logger.getLevel()).toBe('info');
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+    expect(debugSpy).not.toHaveBeenCalled();
+  });
+
+  test('should honour the level option', () => {
+    const logger = new UnnboundLogger({ level: 'debug' });
+    const debugSpy = jest.spyOn(logger['logger'], 'debug');
+
+    logger.debug('Visible');
+
+    expect(debugSpy).toHaveBeenCalledTimes(1);
+    expect(debugSpy.mock.calls[0][1]).toBe('Visible');
+  });
+
+  test('should read UNNBOUND_LOG_LEVEL when no level option is given', () => {
+    process.env.UNNBOUND_LOG_LEVEL = ' WARN ';
+    const logger = new UnnboundLogger();
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.info('Dropped');
+
+    expect(logger.getLevel()).toBe('warn');
+    expect(infoSpy).not.toHaveBeenCalled();
+  });
+
+  test('should prefer the level option over UNNBOUND_LOG_LEVEL', () => {
+    process.env.UNNBOUND_LOG_LEVEL = 'error';
+    const logger = new UnnboundLogger({ level: 'debug' });
+    expect(logger.getLevel()).toBe('debug');
+  });
+
+  test('should ignore an invalid UNNBOUND_LOG_LEVEL', () => {
+    process.env.UNNBOUND_LOG_LEVEL = 'verbose';
+    const logger = new UnnboundLogger();
+    expect(logger.getLevel()).toBe('info');
+  });
+
+  test('should change the level at runtime with setLevel', () => {
+    const logger = new UnnboundLogger();
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+
+    logger.setLevel('debug');
+    // Pino rebinds its level methods on level change, so spy afterwards
+    const debugSpy = jest.spyOn(logger['logger'], 'debug');
+    logger.debug('After');
+
+    expect(debugSpy).toHaveBeenCalledTimes(1);
+    expect(debugSpy.mock.calls[0][1]).toBe('After');
+    expect(logger['logger'].level).toBe('debug');
+  });
+
+  test('should reject invalid levels in setLevel', () => {
+    const logger = new UnnboundLogger();
+    expect(() => logger.setLevel('verbose' as any)).toThrow('Invalid log level: verbose');
+  });
+
+  test('should apply per-type level overrides', () => {
+    const logger = new UnnboundLogger({ typeLevels: { dbQueryTransaction: 'debug' } });
+    const debugSpy = jest.spyOn(logger['logger'], 'debug');
+
+    expect(logger.isLevelEnabled('debug', 'dbQueryTransaction')).toBe(true);
+    expect(logger.isLevelEnabled('debug', 'httpRequest')).toBe(false);
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+
+    logger.debug('General debug');
+    expect(debugSpy).not.toHaveBeenCalled();
+  });
+
+  test('should filter transaction logs by their type level', () => {
+    const logger = new UnnboundLogger();
+    logger.setLevel('error', 'sftpTransaction');
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.sftpTransaction({
+      host: 'example.com',
+      username: 'user',
+      operation: 'list',
+      path: '/in',
+      status: 'success',
+    });
+    logger.dbQueryTransaction({ instance: 'db', vendor: 'postgres', status: 'success' });
+
+    expect(infoSpy).toHaveBeenCalledTimes(1);
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ type: 'dbQueryTransaction' });
+  });
+});
+
+describe('log-level utils', () => {
+  test('parseLogLevel should normalise and validate input', () => {
+    expect(parseLogLevel('DEBUG')).toBe('debug');
+    expect(parseLogLevel('trace')).toBeUndefined();
+    expect(parseLogLevel(undefined)).toBeUndefined();
+  });
+
+  test('lowestLogLevel should return the most verbose level', () => {
+    expect(lowestLogLevel(['error', 'info', 'warn'])).toBe('info');
+  });
+});
@@ -194,7 +194,7 @@ describe('UnnboundLogger', () => {
         stack: 'Error: Test error\n    at test.ts:10:20',
       },
     });
-    expect(logCall[1]).toBe('Error');
+    expect(logCall[1]).toBe('Error: Test error');
   });
 
   test('should log HTTP requests', () => {
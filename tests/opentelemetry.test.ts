@@ -0,0 +1,266 @@
+import { context, trace } from '@opentelemetry/api';
+import { logs } from '@opentelemetry/api-logs';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  InMemoryLogRecordExporter,
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+} from '@opentelemetry/sdk-logs';
+import { Request, Response } from 'express';
+import { UnnboundLogger } from '../src';
+import { toOtelLogRecord } from '../src/utils/opentelemetry';
+import { traceContext } from '../src/utils/trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+function withOtelSpan<T>(fn: () => T): T {
+  const span = trace.wrapSpanContext({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 });
+  return context.with(trace.setSpan(context.active(), span), fn);
+}
+
+describe('OpenTelemetry bridge', () => {
+  const contextManager = new AsyncLocalStorageContextManager();
+  let exporter: InMemoryLogRecordExporter;
+  let provider: LoggerProvider;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter = new InMemoryLogRecordExporter();
+    provider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor({ exporter })] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should fill traceId and spanId from the active OpenTelemetry span', () => {
+    const logger = new UnnboundLogger({ openTelemetry: true });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    traceContext.run({ traceId: 'own-trace', parentSpanId: 'ffffffffffffffff' }, () =>
+      withOtelSpan(() => logger.info('Inside span'))
+    );
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    expect(infoSpy.mock.calls[0][0]).not.toHaveProperty('parentSpanId');
+  });
+
+  test('should fall back to the request context without an active span', () => {
+    const logger = new UnnboundLogger({ openTelemetry: true });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    traceContext.run('own-trace', () => logger.info('No span'));
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: 'own-trace' });
+  });
+
+  test('should ignore the active span when the bridge is disabled', () => {
+    const logger = new UnnboundLogger();
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    traceContext.run('own-trace', () => withOtelSpan(() => logger.info('Bridge off')));
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: 'own-trace' });
+  });
+
+  test('should let explicit options override the active span', () => {
+    const logger = new UnnboundLogger({ openTelemetry: true });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    withOtelSpan(() => logger.info('Explicit', { traceId: 'explicit-trace' }));
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: 'explicit-trace' });
+  });
+
+  test('should not pair an explicit trace ID with the span of another trace', () => {
+    const logger = new UnnboundLogger({ openTelemetry: true });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    withOtelSpan(() => logger.info('Explicit', { traceId: 'explicit-trace' }));
+    withOtelSpan(() => logger.info('Same trace', { traceId: TRACE_ID }));
+
+    expect(infoSpy.mock.calls[0][0]).not.toHaveProperty('spanId');
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+  });
+
+  test('should continue the active span in traceMiddleware', () => {
+    const logger = new UnnboundLogger({ openTelemetry: true });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const headers: Record<string, string> = { 'unnbound-trace-id': 'incoming-trace' };
+    const res = {
+      statusCode: 200,
+      locals: {},
+      setHeader: jest.fn(),
+      getHeaders: jest.fn(() => ({})),
+      on: jest.fn(),
+      send: jest.fn(),
+    } as unknown as Response;
+    const req = {
+      method: 'GET',
+      path: '/orders',
+      originalUrl: '/orders',
+      headers,
+      header: jest.fn((name: string) => headers[name.toLowerCase()]),
+      get: jest.fn(),
+      protocol: 'http',
+      ip: '127.0.0.1',
+      res,
+    } as unknown as Request;
+
+    withOtelSpan(() => logger.traceMiddleware(req, res, () => logger.info('In handler')));
+
+    const [requestLog, generalLog] = infoSpy.mock.calls.map(call => call[0]);
+    expect(requestLog).toMatchObject({ type: 'httpRequest', traceId: TRACE_ID, spanId: SPAN_ID });
+    expect(generalLog).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    expect(res.setHeader).toHaveBeenCalledWith('unnbound-trace-id', TRACE_ID);
+  });
+
+  test('should emit logs as LogRecords correlated with the active span', () => {
+    const logger = new UnnboundLogger({
+      openTelemetry: { emitLogRecords: true, logsApi: provider, loggerName: 'orders' },
+    });
+
+    withOtelSpan(() => logger.warn('Low stock', { sku: 'A-1' }));
+
+    const [record] = exporter.getFinishedLogRecords();
+    expect(record.body).toBe('Low stock');
+    expect(record.severityText).toBe('WARN');
+    expect(record.severityNumber).toBe(13);
+    expect(record.instrumentationScope.name).toBe('orders');
+    expect(record.spanContext).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+    expect(record.attributes).toMatchObject({
+      'unnbound.type': 'general',
+      'unnbound.trace_id': TRACE_ID,
+      'unnbound.data': JSON.stringify({ sku: 'A-1' }),
+    });
+  });
+
+  test('should load the global logs API when none is injected', () => {
+    logs.setGlobalLoggerProvider(provider);
+    const logger = new UnnboundLogger({ openTelemetry: { emitLogRecords: true } });
+
+    logger.info('Global provider');
+
+    expect(exporter.getFinishedLogRecords()).toHaveLength(1);
+    logs.disable();
+  });
+
+  test('should not emit LogRecords for disabled levels', () => {
+    const logger = new UnnboundLogger({
+      openTelemetry: { emitLogRecords: true, logsApi: provider },
+    });
+
+    logger.debug('Hidden');
+
+    expect(exporter.getFinishedLogRecords()).toHaveLength(0);
+  });
+
+  test('should map transaction logs to semantic-convention attributes', () => {
+    const logger = new UnnboundLogger({
+      openTelemetry: { emitLogRecords: true, logsApi: provider },
+    });
+
+    logger.dbQueryTransaction({
+      instance: 'db-1',
+      vendor: 'postgres',
+      query: 'SELECT 1',
+      status: 'success',
+      rowsReturned: 1,
+    });
+    logger.sftpTransaction({
+      host: 'sftp.example.com',
+      username: 'ftp',
+      operation: 'upload',
+      path: '/in/a.csv',
+      status: 'success',
+      bytesTransferred: 10,
+    });
+
+    const [dbRecord, sftpRecord] = exporter.getFinishedLogRecords();
+    expect(dbRecord.attributes).toMatchObject({
+      'db.system': 'postgresql',
+      'db.instance.id': 'db-1',
+      'db.query.text': 'SELECT ?',
+      'unnbound.db.fingerprint': expect.stringMatching(/^[0-9a-f]{16}$/),
+      'db.response.returned_rows': 1,
+    });
+    expect(sftpRecord.attributes).toMatchObject({
+      'network.protocol.name': 'sftp',
+      'server.address': 'sftp.example.com',
+      'user.name': 'ftp',
+      'file.path': '/in/a.csv',
+      'unnbound.sftp.operation': 'upload',
+      'unnbound.sftp.bytes_transferred': 10,
+    });
+  });
+
+  test('should map HTTP logs and errors', () => {
+    const requestRecord = toOtelLogRecord(
+      'info',
+      {
+        type: 'httpRequest',
+        httpRequest: {
+          url: 'https://api.example.com/orders',
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          ip: '10.0.0.1',
+        },
+      },
+      'Incoming HTTP Request'
+    );
+    const responseRecord = toOtelLogRecord(
+      'error',
+      {
+        type: 'httpResponse',
+        httpResponse: {
+          url: 'https://api.example.com/orders',
+          method: 'POST',
+          headers: {},
+          ip: 'outgoing',
+          status: 502,
+        },
+        error: { name: 'Error', message: 'Bad gateway', stack: 'stack' },
+      },
+      '502 Bad Gateway'
+    );
+
+    expect(requestRecord.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'url.full': 'https://api.example.com/orders',
+      'client.address': '10.0.0.1',
+      'http.request.header.content-type': 'application/json',
+    });
+    expect(responseRecord.attributes).toMatchObject({
+      'http.response.status_code': 502,
+      'exception.type': 'Error',
+      'exception.message': 'Bad gateway',
+      'exception.stacktrace': 'stack',
+    });
+    expect(responseRecord.attributes).not.toHaveProperty('client.address');
+  });
+
+  test('should keep logging when the exporter throws', () => {
+    const logger = new UnnboundLogger({
+      openTelemetry: {
+        emitLogRecords: true,
+        logsApi: {
+          getLogger: () => ({
+            emit: () => {
+              throw new Error('Exporter down');
+            },
+          }),
+        },
+      },
+    });
+
+    expect(() => logger.info('Still works')).not.toThrow();
+  });
+});
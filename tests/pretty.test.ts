@@ -0,0 +1,207 @@
+import fs from 'fs';
+import { UnnboundLogger } from '../src';
+import { formatBytes, formatPretty, parseLogFormat } from '../src/utils/pretty';
+
+// Strips ANSI colour codes and the leading time
+function plain(output: string): string {
+  // eslint-disable-next-line no-control-regex
+  return output.replace(/\u001b\[\d+m/g, '').replace(/^\d{2}:\d{2}:\d{2}\.\d{3} /, '');
+}
+
+describe('formatPretty', () => {
+  test('should summarize HTTP responses with the path, status and duration', () => {
+    const output = formatPretty(
+      {
+        level: 'info',
+        type: 'httpResponse',
+        duration: 34,
+        httpResponse: {
+          method: 'POST',
+          url: 'https://api.example.com/orders?draft=1',
+          headers: {},
+          status: 201,
+        },
+      },
+      false
+    );
+
+    expect(plain(output)).toBe('INFO  → POST /orders?draft=1 201 34ms\n');
+  });
+
+  test('should keep the full URL of outgoing calls and show aborted responses', () => {
+    const outgoing = formatPretty(
+      {
+        level: 'info',
+        type: 'httpRequest',
+        httpRequest: {
+          method: 'GET',
+          url: 'https://erp.example.com/items',
+          headers: {},
+          ip: 'outgoing',
+          attempt: 2,
+        },
+      },
+      false
+    );
+    const aborted = formatPretty(
+      {
+        level: 'warn',
+        type: 'httpResponse',
+        duration: 5,
+        httpResponse: {
+          method: 'GET',
+          url: 'http://localhost/slow',
+          headers: {},
+          status: 200,
+          outcome: 'aborted',
+        },
+      },
+      false
+    );
+
+    expect(plain(outgoing)).toBe('INFO  ← GET https://erp.example.com/items (attempt 2)\n');
+    expect(plain(aborted)).toBe('WARN  → GET /slow 200 5ms aborted\n');
+  });
+
+  test('should summarize SFTP and database transactions', () => {
+    const sftp = formatPretty(
+      {
+        level: 'info',
+        type: 'sftpTransaction',
+        sftp: {
+          host: 'sftp.example.com',
+          username: 'ftp',
+          operation: 'upload',
+          path: '/in/file.csv',
+          status: 'success',
+          bytesTransferred: 12288,
+        },
+      },
+      false
+    );
+    const db = formatPretty(
+      {
+        level: 'info',
+        type: 'dbQueryTransaction',
+        duration: 3,
+        db: {
+          instance: 'orders-db',
+          vendor: 'postgres',
+          query: 'SELECT * FROM orders WHERE id = $1',
+          status: 'success',
+          rowsReturned: 1,
+        },
+      },
+      false
+    );
+
+    expect(plain(sftp)).toBe('INFO  SFTP upload success /in/file.csv 12KB\n');
+    expect(
+      plain(
+        formatPretty(
+          {
+            level: 'info',
+            type: 'sftpTransaction',
+            duration: 30000,
+            sftp: {
+              host: 'sftp.example.com',
+              username: 'ftp',
+              operation: 'download',
+              path: '/out/large.bin',
+              status: 'in_progress',
+              bytesTransferred: 2 * 1024 * 1024,
+              totalBytes: 8 * 1024 * 1024,
+              bytesPerSecond: 0,
+            },
+          },
+          false
+        )
+      )
+    ).toBe('INFO  SFTP download in_progress /out/large.bin 2.0MB/8.0MB 0B/s 30000ms\n');
+    expect(plain(db)).toBe(
+      'INFO  DB postgres success SELECT * FROM orders WHERE id = $1 1 rows 3ms\n'
+    );
+  });
+
+  test('should indent data and error stacks and colourise the level', () => {
+    const output = formatPretty(
+      {
+        level: 'error',
+        type: 'general',
+        messages: 'Sync failed',
+        traceId: 'trace-1',
+        data: { orderId: 42 },
+        error: { name: 'Error', message: 'Timeout', stack: 'Error: Timeout\n    at sync' },
+      },
+      true
+    );
+
+    expect(output).toContain('\u001b[31mERROR\u001b[0m');
+    expect(plain(output)).toBe(
+      [
+        'ERROR Sync failed trace=trace-1',
+        '    data: {',
+        '      "orderId": 42',
+        '    }',
+        '    error: Error: Timeout',
+        '        at sync',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should format sizes and parse formats', () => {
+    expect(formatBytes(512)).toBe('512B');
+    expect(formatBytes(12288)).toBe('12KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0MB');
+    expect(parseLogFormat(' Pretty ')).toBe('pretty');
+    expect(parseLogFormat('yaml')).toBeUndefined();
+  });
+});
+
+describe('UnnboundLogger format', () => {
+  const originalFormat = process.env.UNNBOUND_LOG_FORMAT;
+  let written: string[];
+
+  beforeEach(() => {
+    written = [];
+    const writeSync = fs.writeSync;
+    // Pino writes to stdout synchronously through fs.writeSync
+    jest.spyOn(fs, 'writeSync').mockImplementation(((fd: number, data: string, ...rest: any[]) => {
+      if (fd === 1) {
+        written.push(data);
+        return Buffer.byteLength(data);
+      }
+      return (writeSync as any)(fd, data, ...rest);
+    }) as typeof fs.writeSync);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (originalFormat === undefined) {
+      delete process.env.UNNBOUND_LOG_FORMAT;
+    } else {
+      process.env.UNNBOUND_LOG_FORMAT = originalFormat;
+    }
+  });
+
+  test('should write pretty lines to stdout', () => {
+    const logger = new UnnboundLogger({ format: 'pretty' });
+
+    logger.info('Started', { port: 3000 });
+
+    expect(plain(written.join(''))).toMatch(/^INFO {2}Started trace=\S+\n {4}data: \{/);
+  });
+
+  test('should read the format from UNNBOUND_LOG_FORMAT', () => {
+    process.env.UNNBOUND_LOG_FORMAT = 'pretty';
+    new UnnboundLogger().warn('Slow');
+
+    expect(written).toHaveLength(1);
+    expect(plain(written[0])).toMatch(/^WARN {2}Slow/);
+
+    // JSON output keeps Pino's default stdout destination
+    delete process.env.UNNBOUND_LOG_FORMAT;
+    expect(new UnnboundLogger()['destinations']).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+
+type Listener = (...args: any[]) => void;
+
+// Calls the installed listener directly; emitting the events would also reach Jest's own handlers
+function installedListener(event: string, before: Function[]): Listener {
+  return process.listeners(event as NodeJS.Signals).find(l => !before.includes(l)) as Listener;
+}
+
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+describe('process handlers', () => {
+  let logger: UnnboundLogger;
+  let exitSpy: jest.SpyInstance;
+  let uninstall: (() => void) | undefined;
+  const before: Record<string, Function[]> = {};
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    exitSpy = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    for (const event of ['uncaughtException', 'unhandledRejection', 'beforeExit', 'SIGTERM']) {
+      before[event] = process.listeners(event as NodeJS.Signals);
+    }
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+    process.exitCode = undefined;
+    jest.restoreAllMocks();
+  });
+
+  test('should log uncaught exceptions as fatal with the trace context, flush and exit', async () => {
+    const fatalSpy = jest.spyOn(logger['logger'], 'fatal');
+    const flushSpy = jest.spyOn(logger, 'flush');
+    uninstall = logger.installProcessHandlers({ exitCode: 3 });
+
+    traceContext.run('trace-1', () =>
+      installedListener('uncaughtException', before.uncaughtException)(new Error('Crash'))
+    );
+    await flushPromises();
+
+    expect(fatalSpy.mock.calls[0][1]).toBe('Error: Crash');
+    expect(fatalSpy.mock.calls[0][0]).toMatchObject({
+      traceId: 'trace-1',
+      error: { message: 'Crash' },
+      data: { event: 'uncaughtException' },
+    });
+    expect(flushSpy).toHaveBeenCalled();
+    expect(exitSpy).toHaveBeenCalledWith(3);
+  });
+
+  test('should log unhandled rejections of non-Error values', async () => {
+    const fatalSpy = jest.spyOn(logger['logger'], 'fatal');
+    uninstall = logger.installProcessHandlers();
+
+    installedListener('unhandledRejection', before.unhandledRejection)('Nope');
+    await flushPromises();
+
+    expect(fatalSpy.mock.calls[0][0]).toMatchObject({
+      error: { message: 'Nope' },
+      data: { event: 'unhandledRejection' },
+    });
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  test('should flush and exit once on termination signals', async () => {
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    uninstall = logger.installProcessHandlers();
+
+    const onSignal = installedListener('SIGTERM', before.SIGTERM);
+    onSignal('SIGTERM');
+    onSignal('SIGTERM');
+    await flushPromises();
+
+    expect(infoSpy.mock.calls[0][1]).toBe('Received SIGTERM, shutting down');
+    expect(exitSpy).toHaveBeenCalledTimes(1);
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  test('should set the exit code before a flush that never settles', async () => {
+    jest.spyOn(logger['logger'], 'fatal').mockImplementation(() => undefined);
+    jest.spyOn(logger, 'flush').mockReturnValue(new Promise(() => undefined));
+    uninstall = logger.installProcessHandlers({ exitCode: 3, flushTimeout: 60000 });
+
+    installedListener('uncaughtException', before.uncaughtException)(new Error('Crash'));
+    await flushPromises();
+
+    // The process exits with this code if nothing else keeps it alive
+    expect(process.exitCode).toBe(3);
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  test('should exit after the flush timeout when the flush hangs', async () => {
+    jest.spyOn(logger, 'flush').mockReturnValue(new Promise(() => undefined));
+    uninstall = logger.installProcessHandlers({ flushTimeout: 20 });
+
+    installedListener('SIGTERM', before.SIGTERM)('SIGTERM');
+    await flushPromises();
+    expect(exitSpy).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  test('should only flush when exit is disabled', async () => {
+    const flushSpy = jest.spyOn(logger, 'flush');
+    uninstall = logger.installProcessHandlers({ exit: false });
+
+    installedListener('uncaughtException', before.uncaughtException)(new Error('Crash'));
+    installedListener('beforeExit', before.beforeExit)();
+    await flushPromises();
+
+    expect(flushSpy).toHaveBeenCalledTimes(2);
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  test('should remove the handlers on uninstall', () => {
+    const remove = logger.installProcessHandlers({ signals: ['SIGTERM'] });
+    remove();
+
+    expect(process.listeners('uncaughtException')).toEqual(before.uncaughtException);
+    expect(process.listeners('SIGTERM')).toEqual(before.SIGTERM);
+  });
+
+  test('flush should resolve once the destination is flushed', async () => {
+    await expect(logger.flush()).resolves.toBeUndefined();
+    await expect(logger.child({ jobId: 'job-1' }).flush()).resolves.toBeUndefined();
+  });
+});
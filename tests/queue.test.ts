@@ -0,0 +1,152 @@
+import { UnnboundLogger } from '../src';
+import { formatPretty } from '../src/utils/pretty';
+import { traceContext } from '../src/utils/trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('queueTransaction', () => {
+  let logger: UnnboundLogger;
+  let infoSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    warnSpy = jest.spyOn(logger['logger'], 'warn');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should log published and consumed messages at info level', () => {
+    const log = traceContext.run('trace-1', () =>
+      logger.queueTransaction(
+        {
+          system: 'sqs',
+          name: 'orders',
+          operation: 'consume',
+          status: 'success',
+          messageId: 'msg-1',
+          payloadSize: 512,
+          deliveryAttempt: 2,
+        },
+        { duration: 40 }
+      )
+    );
+
+    expect(log).toMatchObject({
+      type: 'queueTransaction',
+      traceId: 'trace-1',
+      message: 'Queue consume success - orders (msg-1)',
+      duration: 40,
+    });
+    expect(infoSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'queueTransaction', queue: log.queue }),
+      'Queue consume success - orders (msg-1)'
+    );
+    expect(
+      formatPretty(
+        { level: 'info', type: 'queueTransaction', duration: 40, queue: log.queue },
+        false
+      )
+    ).toMatch(/INFO {2}Queue sqs consume success orders msg-1 512B 40ms \(attempt 2\)\n$/);
+  });
+
+  test('should log rejected messages at warn level and failures at error level', () => {
+    logger.queueTransaction({
+      system: 'rabbitmq',
+      name: 'orders',
+      operation: 'nack',
+      status: 'success',
+    });
+    logger.queueTransaction(
+      { system: 'kafka', name: 'orders', operation: 'publish', status: 'failure', partition: 3 },
+      { startTime: Date.now() - 10, error: new Error('Broker not available') }
+    );
+
+    expect(warnSpy).toHaveBeenCalledWith(expect.anything(), 'Queue nack success - orders');
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        queue: expect.objectContaining({ operation: 'publish', partition: 3 }),
+        error: expect.objectContaining({ message: 'Broker not available' }),
+      }),
+      'Queue publish failure - orders'
+    );
+  });
+});
+
+describe('message trace propagation', () => {
+  test('should inject the active trace ID into message headers', () => {
+    const logger = new UnnboundLogger();
+    const headers = traceContext.run('trace-1', () =>
+      logger.injectTraceContext({ 'content-type': 'application/json' })
+    );
+
+    expect(headers).toEqual({ 'content-type': 'application/json', 'unnbound-trace-id': 'trace-1' });
+    expect(logger.injectTraceContext({})).toEqual({});
+  });
+
+  test('should inject SQS message attributes in W3C mode', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'w3c' });
+    const attributes = traceContext.run({ traceId: TRACE_ID, spanId: SPAN_ID }, () =>
+      logger.injectTraceContext({}, 'sqs')
+    );
+
+    expect(attributes).toEqual({
+      traceparent: { DataType: 'String', StringValue: `00-${TRACE_ID}-${SPAN_ID}-01` },
+    });
+  });
+
+  test('should continue the producer trace from SQS, Lambda and Kafka messages', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'both' });
+    const producer = traceContext.run({ traceId: TRACE_ID, spanId: SPAN_ID }, () => ({
+      sqs: logger.injectTraceContext({}, 'sqs'),
+      kafka: logger.injectTraceContext<Record<string, string>>({}),
+    }));
+
+    const fromSqs = logger.extractTraceContext(producer.sqs);
+    const fromLambda = logger.extractTraceContext({
+      'Unnbound-Trace-Id': { stringValue: TRACE_ID, dataType: 'String' },
+    });
+    // kafkajs delivers header values as Buffers
+    const fromKafka = logger.extractTraceContext(
+      Object.fromEntries(
+        Object.entries(producer.kafka).map(([name, value]) => [name, Buffer.from(value)])
+      )
+    );
+
+    expect(fromSqs).toEqual({
+      traceId: TRACE_ID,
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      parentSpanId: SPAN_ID,
+      traceFlags: '01',
+    });
+    expect(fromLambda.traceId).toBe(TRACE_ID);
+    expect(fromKafka).toMatchObject({ traceId: TRACE_ID, parentSpanId: SPAN_ID });
+
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    traceContext.run(fromKafka, () =>
+      logger.queueTransaction({
+        system: 'kafka',
+        name: 'orders',
+        operation: 'consume',
+        status: 'success',
+      })
+    );
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ traceId: TRACE_ID, parentSpanId: SPAN_ID });
+    infoSpy.mockRestore();
+  });
+
+  test('should start a new trace for messages without trace context', () => {
+    const logger = new UnnboundLogger();
+
+    expect(logger.extractTraceContext(undefined).traceId).toEqual(expect.any(String));
+    expect(logger.extractTraceContext({ other: 1 }).traceId).not.toBe(
+      logger.extractTraceContext({ other: 1 }).traceId
+    );
+  });
+});
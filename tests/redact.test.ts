@@ -0,0 +1,200 @@
+import { UnnboundLogger } from '../src';
+import { createRedactor } from '../src/utils/redact';
+import { Request, Response } from 'express';
+
+const CARD_NUMBER = /\b(?:\d[ -]?){12,15}\d\b/;
+
+describe('createRedactor', () => {
+  test('should mask values at configured paths', () => {
+    const redact = createRedactor({
+      paths: ['httpRequest.body.password', 'data.cards[*].number'],
+    });
+
+    const result = redact({
+      httpRequest: { body: { user: 'ann', password: 'secret' } },
+      data: { cards: [{ number: '4111' }, { number: '5500' }], password: 'kept' },
+    });
+
+    expect(result).toEqual({
+      httpRequest: { body: { user: 'ann', password: '[REDACTED]' } },
+      data: { cards: [{ number: '[REDACTED]' }, { number: '[REDACTED]' }], password: 'kept' },
+    });
+  });
+
+  test('should redact key names at any depth', () => {
+    const redact = createRedactor({ keys: ['Token', /^x-api-/i], mask: '***' });
+
+    expect(
+      redact({ token: 'a', nested: { list: [{ TOKEN: 'b' }], 'X-Api-Key': 'c', other: 'd' } })
+    ).toEqual({ token: '***', nested: { list: [{ TOKEN: '***' }], 'X-Api-Key': '***', other: 'd' } });
+  });
+
+  test('should redact matching substrings in string values', () => {
+    const redact = createRedactor({ values: [CARD_NUMBER] });
+
+    expect(redact({ note: 'paid with 4111 1111 1111 1111 and 4242424242424242' })).toEqual({
+      note: 'paid with [REDACTED] and [REDACTED]',
+    });
+    expect(redact('card 4111111111111111')).toBe('card [REDACTED]');
+  });
+
+  test('should hash redacted values deterministically', () => {
+    const redact = createRedactor({ keys: ['email'], strategy: 'hash' });
+
+    const first = redact({ email: 'ann@example.com' });
+    const second = redact({ email: 'ann@example.com' });
+
+    expect(first.email).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(second.email).toBe(first.email);
+    expect(redact({ email: 'bob@example.com' }).email).not.toBe(first.email);
+  });
+
+  test('should remove redacted keys and values', () => {
+    const redact = createRedactor({ keys: ['ssn'], values: [/\d{3}-\d{2}-\d{4}/], strategy: 'remove' });
+
+    expect(redact({ ssn: '123-45-6789', name: 'ann', note: 'ssn 123-45-6789' })).toEqual({
+      name: 'ann',
+      note: 'ssn ',
+    });
+  });
+
+  test('should redact keys in incomplete JSON text', () => {
+    const redact = createRedactor({ keys: ['password'], paths: ['httpResponse.body.token'] });
+
+    expect(redact.text('{"user":"ann","password":"hunter2","token":"t-1","note":"unfini')).toBe(
+      '{"user":"ann","password":"[REDACTED]","token":"[REDACTED]","note":"unfini'
+    );
+    expect(redact.text('[{"password": "hunter')).toBe('[{"password":"[REDACTED]"');
+  });
+
+  test('should not mutate the input and should handle circular references', () => {
+    const input: Record<string, unknown> = { password: 'secret', when: new Date(0) };
+    input.self = input;
+
+    const result = createRedactor({ keys: ['password'] })(input);
+
+    expect(input.password).toBe('secret');
+    expect(result).toEqual({ password: '[REDACTED]', when: new Date(0), self: '[Circular]' });
+  });
+});
+
+describe('UnnboundLogger redaction', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should redact general log data and messages', () => {
+    const logger = new UnnboundLogger({ redact: { keys: ['password'], values: [CARD_NUMBER] } });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.info('Charged card 4111111111111111', { password: 'hunter2', user: 'ann' });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      data: { password: '[REDACTED]', user: 'ann' },
+    });
+    expect(infoSpy.mock.calls[0][1]).toBe('Charged card [REDACTED]');
+  });
+
+  test('should redact HTTP request bodies', () => {
+    const logger = new UnnboundLogger({ redact: { paths: ['httpRequest.body.token'] } });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const body = { token: 'abc', amount: 5 };
+
+    logger.httpRequest({
+      method: 'POST',
+      originalUrl: 'https://api.example.com/pay',
+      headers: {},
+      body,
+      ip: '127.0.0.1',
+      get: jest.fn(),
+    } as unknown as Request);
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      httpRequest: { body: { token: '[REDACTED]', amount: 5 } },
+    });
+    expect(body.token).toBe('abc');
+  });
+
+  test('should redact bodies before truncating them', () => {
+    const logger = new UnnboundLogger({
+      redact: { keys: ['password'], paths: ['httpRequest.body.card.number'] },
+      body: { maxBytes: 100 },
+    });
+    const infoSpy: jest.SpyInstance = jest
+      .spyOn(logger['logger'], 'info')
+      .mockImplementation(() => undefined);
+    const req = {
+      method: 'POST',
+      originalUrl: 'https://api.example.com/signup',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        password: 'hunter2',
+        card: { number: '4111111111111111' },
+        notes: 'x'.repeat(200),
+      }),
+      ip: '127.0.0.1',
+      get: jest.fn(),
+    } as unknown as Request;
+
+    logger.httpRequest(req);
+    // Only the beginning of a large response body is collected, which is not valid JSON
+    logger.httpResponse(
+      {
+        statusCode: 200,
+        locals: { body: '{"user":"ann","password":"hunter2","notes":"xxxx', bodyPartial: true },
+        getHeaders: () => ({ 'content-type': 'application/json' }),
+      } as unknown as Response,
+      req
+    );
+
+    const [[requestLog], [responseLog]] = infoSpy.mock.calls;
+    expect(requestLog.httpRequest.body).toEqual({
+      truncated: true,
+      originalSize: 270,
+      preview: expect.stringMatching(
+        /^\{"password":"\[REDACTED\]","card":\{"number":"\[REDACTED\]"\},"notes":"x+$/
+      ),
+    });
+    expect(responseLog.httpResponse.body).toEqual({
+      truncated: true,
+      preview: '{"user":"ann","password":"[REDACTED]","notes":"xxxx',
+    });
+  });
+
+  test('should redact nested sftp and db payloads', () => {
+    const logger = new UnnboundLogger({
+      redact: { paths: ['sftp.username', 'db.query'], strategy: 'hash' },
+    });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+
+    logger.sftpTransaction({
+      host: 'sftp.example.com',
+      username: 'acme-user',
+      operation: 'list',
+      path: '/in',
+      status: 'success',
+    });
+    logger.dbQueryTransaction({
+      instance: 'db',
+      vendor: 'postgres',
+      query: "SELECT * FROM users WHERE email = 'ann@example.com'",
+      status: 'success',
+    });
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      sftp: { host: 'sftp.example.com', username: expect.stringMatching(/^sha256:/) },
+    });
+    expect(infoSpy.mock.calls[1][0]).toMatchObject({
+      db: { query: expect.stringMatching(/^sha256:/) },
+    });
+  });
+
+  test('should apply the parent redaction to child loggers', () => {
+    const child = new UnnboundLogger({ redact: { keys: ['apiKey'] } }).child({ apiKey: 'k-1' });
+    const infoSpy = jest.spyOn(child['logger'], 'info');
+
+    child.info('From child');
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ data: { apiKey: '[REDACTED]' } });
+  });
+});
@@ -0,0 +1,186 @@
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import express from 'express';
+import { UnnboundLogger } from '../src';
+import { BodyCollector } from '../src/utils/body';
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('BodyCollector', () => {
+  test('should keep at most maxBytes while counting every byte', () => {
+    const collector = new BodyCollector(4);
+    collector.add('ab');
+    collector.add(Buffer.from('cdef'));
+    collector.add(() => undefined);
+
+    expect(collector.bytesSent).toBe(6);
+    expect(collector.getBody('text/plain')).toBe('abcd');
+    expect(collector.getBody(undefined)).toEqual(Buffer.from('abcd'));
+    expect(new BodyCollector(4).getBody('text/plain')).toBeUndefined();
+  });
+});
+
+describe('traceMiddleware response capture', () => {
+  const logger = new UnnboundLogger({ body: { maxBytes: 1024 } });
+  let server: http.Server;
+  let baseUrl: string;
+  let infoSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  const responseLogs = (): any[] =>
+    [...infoSpy.mock.calls, ...warnSpy.mock.calls]
+      .map(([entry]) => entry)
+      .filter(entry => entry.type === 'httpResponse');
+
+  beforeAll(done => {
+    const app = express();
+    app.use(logger.traceMiddleware);
+    app.get('/json', (_req, res) => {
+      res.json({ ok: true });
+    });
+    app.get('/write', (_req, res) => {
+      res.setHeader('Content-Type', 'text/plain');
+      res.write('Hello, ');
+      res.end('world');
+    });
+    app.get('/stream', (_req, res) => {
+      res.setHeader('Content-Type', 'text/csv');
+      Readable.from(['id,name\n', 'x'.repeat(2000)]).pipe(res);
+    });
+    app.get('/file', (_req, res) => {
+      res.sendFile(path.join(__dirname, '..', 'tsconfig.json'));
+    });
+    app.get('/hang', () => {
+      // Never responds
+    });
+    app.get('/slow', (_req, res) => {
+      res.setTimeout(20, () => res.socket?.destroy());
+    });
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    infoSpy = jest.spyOn(logger['logger'], 'info').mockImplementation(() => undefined);
+    warnSpy = jest.spyOn(logger['logger'], 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function get(route: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      http
+        .get(`${baseUrl}${route}`, res => {
+          res.resume();
+          res.on('end', resolve);
+        })
+        .on('error', reject);
+    });
+  }
+
+  test('should capture res.json bodies once with the bytes sent', async () => {
+    await get('/json');
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(responseLogs()).toHaveLength(1);
+    expect(responseLogs()[0].httpResponse).toMatchObject({
+      status: 200,
+      body: { ok: true },
+      outcome: 'completed',
+      bytesSent: 11,
+    });
+  });
+
+  test('should capture bodies written with res.write and res.end', async () => {
+    await get('/write');
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(responseLogs()[0].httpResponse).toMatchObject({
+      body: 'Hello, world',
+      bytesSent: 12,
+    });
+  });
+
+  test('should capture piped streams up to the body limit', async () => {
+    await get('/stream');
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(responseLogs()[0].httpResponse).toMatchObject({
+      body: { truncated: true, originalSize: 2008 },
+      bytesSent: 2008,
+    });
+    expect(responseLogs()[0].httpResponse.body.preview).toHaveLength(1024);
+  });
+
+  test('should capture res.sendFile bodies', async () => {
+    await get('/file');
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(responseLogs()[0].httpResponse.body).toHaveProperty('compilerOptions');
+  });
+
+  test('should log client-aborted requests', async () => {
+    const req = http.get(`${baseUrl}/hang`).on('error', () => undefined);
+    setTimeout(() => req.destroy(), 20);
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][1]).toBe('Request aborted by client');
+    expect(responseLogs()[0].httpResponse).toMatchObject({ outcome: 'aborted', bytesSent: 0 });
+  });
+
+  test('should keep the server timeout and log the timed-out request', async () => {
+    const app = express();
+    app.use(logger.traceMiddleware);
+    app.get('/hang', () => {
+      // Never responds
+    });
+    const timeoutServer = app.listen(0);
+    // Without a callback, Node destroys the socket of a request that takes too long
+    timeoutServer.setTimeout(50);
+    const { port } = timeoutServer.address() as AddressInfo;
+
+    try {
+      await expect(
+        new Promise((resolve, reject) => {
+          http
+            .get(`http://127.0.0.1:${port}/hang`, resolve)
+            .on('error', reject)
+            .setTimeout(1000, function (this: http.ClientRequest) {
+              this.destroy(new Error('Server kept the connection open'));
+            });
+        })
+      ).rejects.toThrow('socket hang up');
+      await waitFor(() => responseLogs().length > 0);
+
+      expect(warnSpy.mock.calls[0][1]).toBe('Request timed out');
+      expect(responseLogs()[0].httpResponse).toMatchObject({ outcome: 'timeout' });
+    } finally {
+      timeoutServer.closeAllConnections();
+      await new Promise(resolve => timeoutServer.close(resolve));
+    }
+  });
+
+  test('should log timed-out requests', async () => {
+    await expect(get('/slow')).rejects.toThrow();
+    await waitFor(() => responseLogs().length > 0);
+
+    expect(warnSpy.mock.calls[0][1]).toBe('Request timed out');
+    expect(responseLogs()[0].httpResponse).toMatchObject({ outcome: 'timeout' });
+  });
+});
@@ -0,0 +1,329 @@
+import { UnnboundLogger } from '../src';
+import { LogFields } from '../src/types';
+import { createGcpMapper, toEcs, toOtlp } from '../src/utils/schema';
+
+const base: LogFields = {
+  logId: 'log-1',
+  workflowId: 'wf-1',
+  serviceId: 'orders-api',
+  deploymentId: 'dep-1',
+  traceId: '4bf92f35-77b3-4da6-a3ce-929d0e0e4736',
+  requestId: 'req-1',
+};
+
+const httpRequest: LogFields = {
+  ...base,
+  type: 'httpRequest',
+  duration: 0,
+  httpRequest: {
+    method: 'POST',
+    url: 'https://api.example.com/orders',
+    headers: { 'user-agent': 'curl/8.0' },
+    ip: '10.0.0.1',
+    body: { sku: 'A-1' },
+  },
+};
+
+const httpResponse: LogFields = {
+  ...base,
+  type: 'httpResponse',
+  duration: 34,
+  httpResponse: {
+    method: 'POST',
+    url: 'https://api.example.com/orders',
+    headers: { 'content-type': 'application/json' },
+    ip: '10.0.0.1',
+    status: 201,
+    body: { id: 7 },
+    bytesSent: 8,
+    outcome: 'completed',
+  },
+};
+
+const sftp: LogFields = {
+  ...base,
+  type: 'sftpTransaction',
+  duration: 120,
+  sftp: {
+    host: 'sftp.example.com',
+    username: 'ftpuser',
+    operation: 'upload',
+    path: '/in/orders.csv',
+    status: 'success',
+    bytesTransferred: 12288,
+  },
+};
+
+const db: LogFields = {
+  ...base,
+  type: 'dbQueryTransaction',
+  duration: 3,
+  db: {
+    instance: 'orders-db',
+    vendor: 'postgres',
+    query: 'SELECT * FROM orders WHERE id = $1',
+    status: 'failure',
+    rowsReturned: 0,
+  },
+};
+
+const general: LogFields = {
+  ...base,
+  type: 'general',
+  spanId: '00f067aa0ba902b7',
+  userId: 'user-1',
+  tenantId: 'tenant-1',
+  data: { orderId: 7 },
+  error: { name: 'TypeError', message: 'Bad input', stack: 'TypeError: Bad input\n    at x' },
+};
+
+describe('ECS schema', () => {
+  test('should map general logs', () => {
+    expect(toEcs('error', general, 'TypeError: Bad input')).toEqual({
+      '@timestamp': expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      message: 'TypeError: Bad input',
+      'ecs.version': '8.11.0',
+      event: { id: 'log-1', kind: 'event' },
+      service: { name: 'orders-api' },
+      trace: { id: '4bf92f35-77b3-4da6-a3ce-929d0e0e4736' },
+      span: { id: '00f067aa0ba902b7' },
+      user: { id: 'user-1' },
+      organization: { id: 'tenant-1' },
+      error: {
+        type: 'TypeError',
+        message: 'Bad input',
+        stack_trace: 'TypeError: Bad input\n    at x',
+      },
+      unnbound: {
+        type: 'general',
+        workflow_id: 'wf-1',
+        deployment_id: 'dep-1',
+        request_id: 'req-1',
+        data: { orderId: 7 },
+      },
+    });
+  });
+
+  test('should map HTTP requests and responses', () => {
+    expect(toEcs('info', httpRequest, 'Incoming HTTP Request')).toMatchObject({
+      http: { request: { method: 'POST', body: { content: '{"sku":"A-1"}' } } },
+      url: { full: 'https://api.example.com/orders' },
+      client: { ip: '10.0.0.1' },
+      unnbound: { type: 'httpRequest', http: { headers: { 'user-agent': 'curl/8.0' } } },
+    });
+    expect(toEcs('info', httpResponse, '201 Created')).toMatchObject({
+      event: { outcome: 'success', duration: 34000000 },
+      http: {
+        request: { method: 'POST' },
+        response: { status_code: 201, body: { content: '{"id":7}', bytes: 8 } },
+      },
+      unnbound: { http: { outcome: 'completed' } },
+    });
+  });
+
+  test('should map SFTP and database transactions', () => {
+    expect(toEcs('info', sftp, 'SFTP upload success')).toMatchObject({
+      event: { action: 'sftp-upload', outcome: 'success', duration: 120000000 },
+      server: { address: 'sftp.example.com' },
+      user: { name: 'ftpuser' },
+      file: { path: '/in/orders.csv' },
+      unnbound: { sftp: { operation: 'upload', status: 'success', bytes_transferred: 12288 } },
+    });
+    expect(toEcs('error', db, 'DB Query failure - postgres')).toMatchObject({
+      event: { action: 'db-query', outcome: 'failure' },
+      unnbound: {
+        db: {
+          vendor: 'postgres',
+          instance: 'orders-db',
+          statement: 'SELECT * FROM orders WHERE id = $1',
+          status: 'failure',
+          rows_returned: 0,
+        },
+      },
+    });
+  });
+});
+
+describe('GCP schema', () => {
+  const toGcp = createGcpMapper('my-project');
+
+  test('should map general logs', () => {
+    expect(toGcp('fatal', general, 'TypeError: Bad input')).toEqual({
+      message: 'TypeError: Bad input',
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      'logging.googleapis.com/insertId': 'log-1',
+      // UUID trace IDs are written in the 32 hex character form Cloud Trace expects
+      'logging.googleapis.com/trace': 'projects/my-project/traces/4bf92f3577b34da6a3ce929d0e0e4736',
+      'logging.googleapis.com/spanId': '00f067aa0ba902b7',
+      'logging.googleapis.com/labels': {
+        type: 'general',
+        workflowId: 'wf-1',
+        serviceId: 'orders-api',
+        deploymentId: 'dep-1',
+        requestId: 'req-1',
+      },
+      stack_trace: 'TypeError: Bad input\n    at x',
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+      error: general.error,
+      data: { orderId: 7 },
+    });
+    expect(createGcpMapper()('info', base, 'Hi')).toMatchObject({
+      'logging.googleapis.com/trace': '4bf92f3577b34da6a3ce929d0e0e4736',
+    });
+    expect(toGcp('info', { ...base, traceId: 'custom-trace-1' }, 'Hi')).toMatchObject({
+      'logging.googleapis.com/trace': 'projects/my-project/traces/custom-trace-1',
+    });
+  });
+
+  test('should map HTTP requests and responses onto httpRequest', () => {
+    expect(toGcp('info', httpRequest, 'Incoming HTTP Request')).toMatchObject({
+      httpRequest: {
+        requestMethod: 'POST',
+        requestUrl: 'https://api.example.com/orders',
+        remoteIp: '10.0.0.1',
+        userAgent: 'curl/8.0',
+        latency: '0s',
+      },
+      http: { headers: { 'user-agent': 'curl/8.0' }, body: { sku: 'A-1' } },
+    });
+    expect(toGcp('warn', httpResponse, '201 Created')).toMatchObject({
+      httpRequest: { status: 201, responseSize: '8', latency: '0.034s' },
+      http: { body: { id: 7 }, outcome: 'completed' },
+    });
+  });
+
+  test('should keep SFTP and database fields in the payload', () => {
+    expect(toGcp('info', sftp, 'SFTP upload success')).toMatchObject({
+      'logging.googleapis.com/labels': { type: 'sftpTransaction' },
+      duration: 120,
+      sftp: sftp.sftp,
+    });
+    const entry = toGcp('error', db, 'DB Query failure - postgres');
+    expect(entry).toMatchObject({ db: db.db });
+    expect(entry).not.toHaveProperty('httpRequest');
+  });
+});
+
+describe('OTLP schema', () => {
+  function attributes(record: Record<string, unknown>): Record<string, unknown> {
+    const list = record.attributes as { key: string; value: Record<string, unknown> }[];
+    return Object.fromEntries(list.map(({ key, value }) => [key, value]));
+  }
+
+  test('should map general logs to an OTLP/JSON LogRecord', () => {
+    const record = toOtlp('error', general, 'TypeError: Bad input');
+
+    expect(record).toMatchObject({
+      timeUnixNano: expect.stringMatching(/^\d{19}$/),
+      body: { stringValue: 'TypeError: Bad input' },
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+    });
+    expect(attributes(record)).toMatchObject({
+      'unnbound.log_id': { stringValue: 'log-1' },
+      'unnbound.type': { stringValue: 'general' },
+      'enduser.id': { stringValue: 'user-1' },
+      'exception.type': { stringValue: 'TypeError' },
+      'unnbound.data': { stringValue: '{"orderId":7}' },
+    });
+  });
+
+  test('should map transaction fields to semantic-convention attributes', () => {
+    expect(attributes(toOtlp('info', httpResponse, '201 Created'))).toMatchObject({
+      'http.request.method': { stringValue: 'POST' },
+      'url.full': { stringValue: 'https://api.example.com/orders' },
+      'http.response.status_code': { intValue: '201' },
+      'unnbound.duration_ms': { intValue: '34' },
+    });
+    expect(attributes(toOtlp('info', httpRequest, 'Incoming HTTP Request'))).toMatchObject({
+      'client.address': { stringValue: '10.0.0.1' },
+      'http.request.header.user-agent': { stringValue: 'curl/8.0' },
+    });
+    expect(attributes(toOtlp('info', sftp, 'SFTP upload success'))).toMatchObject({
+      'network.protocol.name': { stringValue: 'sftp' },
+      'server.address': { stringValue: 'sftp.example.com' },
+      'unnbound.sftp.bytes_transferred': { intValue: '12288' },
+    });
+    expect(attributes(toOtlp('error', db, 'DB Query failure - postgres'))).toMatchObject({
+      'db.system': { stringValue: 'postgresql' },
+      'db.query.text': { stringValue: 'SELECT * FROM orders WHERE id = $1' },
+      'db.response.returned_rows': { intValue: '0' },
+    });
+  });
+
+  test('should omit trace and span IDs that are not hex IDs', () => {
+    const record = toOtlp('info', { ...base, traceId: 'custom-trace', spanId: 'span' }, 'Hi');
+
+    expect(record).not.toHaveProperty('traceId');
+    expect(record).not.toHaveProperty('spanId');
+  });
+});
+
+describe('UnnboundLogger schema option', () => {
+  function capture(options: ConstructorParameters<typeof UnnboundLogger>[0]) {
+    const lines: string[] = [];
+    const logger = new UnnboundLogger({
+      ...options,
+      destinations: [
+        { type: 'stream', stream: { write: line => lines.push(line) } },
+        ...(options?.destinations || []),
+      ],
+    });
+    return { logger, entries: () => lines.map(line => JSON.parse(line)) };
+  }
+
+  test('should write entries in the configured schema', () => {
+    const ecs = capture({ schema: 'ecs' });
+    const gcp = capture({ schema: 'gcp' });
+    const otlp = capture({ schema: 'otlp' });
+
+    for (const { logger } of [ecs, gcp, otlp]) {
+      logger.warn('Slow', { ms: 900 });
+      logger.fatal('Down');
+    }
+
+    expect(ecs.entries()[0]).toMatchObject({
+      'log.level': 'warn',
+      message: 'Slow',
+      unnbound: { data: { ms: 900 } },
+    });
+    expect(gcp.entries()[0]).toMatchObject({ severity: 'WARNING', message: 'Slow' });
+    expect(gcp.entries()[1]).toMatchObject({ severity: 'CRITICAL', message: 'Down' });
+    expect(otlp.entries()[0]).toMatchObject({
+      severityNumber: 13,
+      severityText: 'WARN',
+      body: { stringValue: 'Slow' },
+    });
+    expect(otlp.entries()[1]).toMatchObject({ severityNumber: 21, severityText: 'FATAL' });
+    for (const { entries } of [ecs, gcp, otlp]) {
+      expect(entries()[0]).not.toHaveProperty('level');
+      expect(entries()[0]).not.toHaveProperty('messages');
+    }
+  });
+
+  test('should keep destination type filters working', () => {
+    const queries: string[] = [];
+    const { logger } = capture({
+      schema: 'ecs',
+      destinations: [
+        {
+          type: 'stream',
+          stream: { write: line => queries.push(line) },
+          types: ['dbQueryTransaction'],
+        },
+      ],
+    });
+
+    logger.info('Ignored');
+    logger.child({ jobId: 'job-1' }).dbQueryTransaction({
+      instance: 'orders-db',
+      vendor: 'mysql',
+      status: 'success',
+    });
+
+    expect(queries.map(line => JSON.parse(line))).toEqual([
+      expect.objectContaining({ event: expect.objectContaining({ action: 'db-query' }) }),
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { UnnboundLogger } from '../src';
+import { getErrorHeadline, serializeError } from '../src/utils/serialize-error';
+
+// Error's cause option needs lib es2022, the tree targets es2021
+function withCause(message: string, cause: unknown): Error {
+  return Object.assign(new Error(message), { cause });
+}
+
+describe('serializeError', () => {
+  test('should serialize cause chains', () => {
+    const root = new Error('Socket closed');
+    const error = withCause('Upload failed', root);
+
+    expect(serializeError(error)).toMatchObject({
+      name: 'Error',
+      message: 'Upload failed',
+      stack: expect.stringContaining('Upload failed'),
+      cause: { name: 'Error', message: 'Socket closed', stack: expect.any(String) },
+    });
+    expect(serializeError(withCause('Wrapped', 'timeout')).cause).toBe('timeout');
+  });
+
+  test('should serialize AggregateError errors', () => {
+    const error = new AggregateError([new TypeError('first'), 'second'], 'All failed');
+
+    expect(serializeError(error)).toMatchObject({
+      name: 'AggregateError',
+      message: 'All failed',
+      errors: [{ name: 'TypeError', message: 'first' }, 'second'],
+    });
+  });
+
+  test('should include system error fields and custom properties', () => {
+    const error = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:5432'), {
+      code: 'ECONNREFUSED',
+      errno: -111,
+      syscall: 'connect',
+      retryable: true,
+      details: { host: '127.0.0.1' },
+      inner: new RangeError('port'),
+      toString: () => 'ignored',
+    });
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toMatchObject({
+      code: 'ECONNREFUSED',
+      errno: -111,
+      syscall: 'connect',
+      retryable: true,
+      details: { host: '127.0.0.1' },
+      inner: { name: 'RangeError', message: 'port' },
+    });
+    expect(Object.keys(serialized)).not.toContain('toString');
+  });
+
+  test('should reduce AxiosErrors to method, url and status', () => {
+    const config = {
+      method: 'post',
+      baseURL: 'https://api.example.com/',
+      url: '/orders',
+      headers: new AxiosHeaders({ Authorization: 'Bearer secret' }),
+      data: '{"card":"4111"}',
+    } as InternalAxiosRequestConfig;
+    const error = new AxiosError(
+      'Request failed with status code 502',
+      'ERR_BAD_RESPONSE',
+      config,
+      {},
+      {
+        status: 502,
+        statusText: 'Bad Gateway',
+        headers: {},
+        config,
+        data: 'upstream down',
+      }
+    );
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toMatchObject({
+      name: 'AxiosError',
+      message: 'Request failed with status code 502',
+      code: 'ERR_BAD_RESPONSE',
+      method: 'POST',
+      url: 'https://api.example.com/orders',
+      status: 502,
+    });
+    expect(JSON.stringify(serialized)).not.toContain('secret');
+    expect(serialized).not.toHaveProperty('config');
+    expect(serialized).not.toHaveProperty('response');
+    expect(serialized).not.toHaveProperty('request');
+  });
+
+  test('should guard against circular causes and limit depth', () => {
+    const first = new Error('first');
+    const second = withCause('second', first);
+    Object.assign(first, { cause: second });
+
+    expect(serializeError(first)).toMatchObject({
+      message: 'first',
+      cause: { message: 'second', cause: { name: 'Error', message: '[Circular]' } },
+    });
+
+    let deep = new Error('level 0');
+    for (let i = 1; i <= 10; i++) {
+      deep = withCause(`level ${i}`, deep);
+    }
+    const serialized = serializeError(deep, 2);
+    expect(serialized.cause).toMatchObject({ message: 'level 9', cause: { message: 'level 8' } });
+    expect((serialized.cause as any).cause).not.toHaveProperty('cause');
+  });
+
+  test('should build a headline from the name and message', () => {
+    expect(getErrorHeadline(new TypeError('Bad input'))).toBe('TypeError: Bad input');
+    expect(getErrorHeadline(new Error())).toBe('Error');
+  });
+});
+
+describe('UnnboundLogger error serialization', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should log the headline and the full serialized error', () => {
+    const logger = new UnnboundLogger();
+    const errorSpy = jest.spyOn(logger['logger'], 'error');
+
+    logger.error(withCause('Sync failed', new Error('Timeout')));
+
+    expect(errorSpy.mock.calls[0][1]).toBe('Error: Sync failed');
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      error: { message: 'Sync failed', cause: { message: 'Timeout' } },
+    });
+  });
+
+  test('should serialize span errors the same way', () => {
+    const logger = new UnnboundLogger();
+    const errorSpy = jest.spyOn(logger['logger'], 'error');
+
+    logger
+      .startSpan('upload')
+      .end('error', Object.assign(new Error('Reset'), { code: 'ECONNRESET' }));
+
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      error: { message: 'Reset', code: 'ECONNRESET' },
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable, Writable } from 'stream';
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+// Sizes read with a local stat are logged after the operation has resolved
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await flush();
+  }
+}
+
+// Stand-in for ssh2-sftp-client, which resolves every call with its result
+class FakeSftpClient {
+  uploaded: Buffer[] = [];
+
+  async put(source: Buffer | Readable | string, remotePath: string): Promise<string> {
+    if (Buffer.isBuffer(source)) {
+      this.uploaded.push(source);
+    } else if (typeof source !== 'string') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of source) {
+        chunks.push(Buffer.from(chunk));
+      }
+      this.uploaded.push(Buffer.concat(chunks));
+    }
+    return `Uploaded data stream to ${remotePath}`;
+  }
+
+  async get(remotePath: string, dst?: Writable): Promise<Buffer | Writable> {
+    const data = Buffer.from('id,sku\n1,A-1\n');
+    if (!dst) {
+      return data;
+    }
+    // Like ssh2-sftp-client: pipe the remote file and resolve with dst once it has finished
+    await new Promise(resolve => Readable.from([data]).pipe(dst).once('finish', resolve));
+    return dst;
+  }
+
+  async fastPut(localPath: string, remotePath: string): Promise<string> {
+    return `${localPath} was successfully uploaded to ${remotePath}!`;
+  }
+
+  async fastGet(remotePath: string, localPath: string): Promise<string> {
+    fs.writeFileSync(localPath, 'downloaded');
+    return `${remotePath} was successfully download to ${localPath}!`;
+  }
+
+  async list(remotePath: string): Promise<{ name: string }[]> {
+    return [{ name: 'a.csv' }, { name: 'b.csv' }, { name: 'c.csv' }];
+  }
+
+  async delete(remotePath: string): Promise<string> {
+    throw Object.assign(new Error(`delete: No such file ${remotePath}`), { code: 2 });
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<string> {
+    return `Successfully renamed ${fromPath} to ${toPath}`;
+  }
+
+  async stat(remotePath: string): Promise<{ size: number }> {
+    return { size: 42 };
+  }
+
+  async append(input: Buffer, remotePath: string): Promise<string> {
+    return `Appended data to ${remotePath}`;
+  }
+
+  async exists(remotePath: string): Promise<false | 'd'> {
+    return 'd';
+  }
+
+  async mkdir(remotePath: string, recursive?: boolean): Promise<string> {
+    return `${remotePath} directory created`;
+  }
+
+  async rmdir(remotePath: string, recursive?: boolean): Promise<string> {
+    return 'Successfully removed directory';
+  }
+
+  async chmod(remotePath: string, mode: number | string): Promise<string> {
+    return 'Successfully change file mode';
+  }
+}
+
+// A fastPut that reports 1KB of 4KB, then stalls before finishing, and a get that
+// pipes 1KB into the destination, then stalls before piping the rest
+class SlowSftpClient {
+  async get(remotePath: string, dst: Writable): Promise<Writable> {
+    const source = new PassThrough();
+    const finished = new Promise(resolve => source.pipe(dst).once('finish', resolve));
+    source.write(Buffer.alloc(1024));
+    await new Promise(resolve => setTimeout(resolve, 120));
+    source.end(Buffer.alloc(3072));
+    await finished;
+    return dst;
+  }
+
+  async fastPut(
+    localPath: string,
+    remotePath: string,
+    options: { step: (total: number, chunk: number, size: number) => void }
+  ): Promise<string> {
+    options.step(1024, 1024, 4096);
+    await new Promise(resolve => setTimeout(resolve, 120));
+    options.step(4096, 3072, 4096);
+    return `${localPath} was successfully uploaded to ${remotePath}!`;
+  }
+}
+
+describe('SFTP instrumentation', () => {
+  const options = { host: 'sftp.example.com', username: 'ftpuser' };
+  let logger: UnnboundLogger;
+  let client: FakeSftpClient;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    client = new FakeSftpClient();
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function sftpLogs(spy: jest.SpyInstance): unknown[] {
+    return spy.mock.calls.map(([entry]) => entry.sftp);
+  }
+
+  test('should log uploads of buffers and streams with the bytes transferred', async () => {
+    logger.instrumentSftp(client, options);
+
+    await traceContext.run('trace-1', () => client.put(Buffer.from('hello'), '/in/a.txt'));
+    await client.put(Readable.from([Buffer.from('id,sku\n'), Buffer.from('1,A-1\n')]), '/in/b.csv');
+
+    expect(client.uploaded.map(String)).toEqual(['hello', 'id,sku\n1,A-1\n']);
+    expect(infoSpy.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        type: 'sftpTransaction',
+        traceId: 'trace-1',
+        duration: expect.any(Number),
+        sftp: {
+          host: 'sftp.example.com',
+          username: 'ftpuser',
+          operation: 'upload',
+          path: '/in/a.txt',
+          status: 'success',
+          bytesTransferred: 5,
+        },
+      }),
+      'SFTP upload success - /in/a.txt',
+    ]);
+    expect(sftpLogs(infoSpy)[1]).toMatchObject({ path: '/in/b.csv', bytesTransferred: 13 });
+  });
+
+  test('should log fastPut, get and fastGet with local file sizes', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unnbound-sftp-'));
+    const localFile = path.join(dir, 'orders.csv');
+    fs.writeFileSync(localFile, 'a'.repeat(2048));
+    logger.instrumentSftp(client, options);
+
+    try {
+      await client.fastPut(localFile, '/in/orders.csv');
+      await client.get('/out/items.csv');
+      await client.fastGet('/out/report.txt', path.join(dir, 'report.txt'));
+      await waitFor(() => sftpLogs(infoSpy).length === 3);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    // Sizes of local files are logged once they have been read, possibly after later calls
+    expect(sftpLogs(infoSpy)).toHaveLength(3);
+    expect(sftpLogs(infoSpy)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          operation: 'upload',
+          path: '/in/orders.csv',
+          bytesTransferred: 2048,
+        }),
+        expect.objectContaining({
+          operation: 'download',
+          path: '/out/items.csv',
+          bytesTransferred: 13,
+        }),
+        expect.objectContaining({
+          operation: 'download',
+          path: '/out/report.txt',
+          bytesTransferred: 10,
+        }),
+      ])
+    );
+  });
+
+  test('should log downloads into writable streams with the bytes piped', async () => {
+    const destination = new PassThrough();
+    const chunks: Buffer[] = [];
+    destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+    logger.instrumentSftp(client, options);
+
+    const result = await client.get('/out/items.csv', destination);
+
+    expect(result).toBe(destination);
+    expect(Buffer.concat(chunks).toString()).toBe('id,sku\n1,A-1\n');
+    expect(sftpLogs(infoSpy)).toEqual([
+      expect.objectContaining({ operation: 'download', bytesTransferred: 13 }),
+    ]);
+  });
+
+  test('should log list, rename and stat', async () => {
+    logger.instrumentSftp(client, options);
+
+    await client.list('/out');
+    await client.rename('/in/a.tmp', '/in/a.csv');
+    await client.stat('/in/a.csv');
+
+    expect(sftpLogs(infoSpy)).toEqual([
+      expect.objectContaining({ operation: 'list', path: '/out', filesListed: 3 }),
+      expect.objectContaining({ operation: 'rename', path: '/in/a.csv', sourcePath: '/in/a.tmp' }),
+      expect.objectContaining({ operation: 'stat', path: '/in/a.csv', status: 'success' }),
+    ]);
+  });
+
+  test('should log append, exists and directory and permission changes', async () => {
+    logger.instrumentSftp(client, options);
+
+    await client.mkdir('/in/2024', true);
+    await client.append(Buffer.from('2,B-2\n'), '/in/2024/orders.csv');
+    await client.exists('/in/2024');
+    await client.chmod('/in/2024/orders.csv', 0o640);
+    await client.rmdir('/in/2024', true);
+
+    expect(sftpLogs(infoSpy)).toEqual([
+      expect.objectContaining({ operation: 'mkdir', path: '/in/2024', status: 'success' }),
+      expect.objectContaining({
+        operation: 'append',
+        path: '/in/2024/orders.csv',
+        bytesTransferred: 6,
+      }),
+      expect.objectContaining({ operation: 'exists', path: '/in/2024' }),
+      expect.objectContaining({ operation: 'chmod', path: '/in/2024/orders.csv' }),
+      expect.objectContaining({ operation: 'rmdir', path: '/in/2024' }),
+    ]);
+  });
+
+  test('should log progress entries of long transfers', async () => {
+    const slow = new SlowSftpClient();
+    const step = jest.fn();
+    logger.instrumentSftp(slow, { ...options, progressInterval: 40 });
+
+    await slow.fastPut(__filename, '/in/large.bin', { step });
+    await waitFor(() => infoSpy.mock.calls.some(([entry]) => entry.sftp.status === 'success'));
+
+    const entries = sftpLogs(infoSpy) as Record<string, unknown>[];
+    const progress = entries.filter(entry => entry.status === 'in_progress');
+    expect(progress.length).toBeGreaterThanOrEqual(2);
+    expect(progress[0]).toEqual({
+      host: 'sftp.example.com',
+      username: 'ftpuser',
+      operation: 'upload',
+      path: '/in/large.bin',
+      status: 'in_progress',
+      bytesTransferred: 1024,
+      totalBytes: 4096,
+      bytesPerSecond: expect.any(Number),
+    });
+    // The stalled transfer shows no throughput
+    expect(progress[1]).toMatchObject({ bytesTransferred: 1024, bytesPerSecond: 0 });
+    expect(entries[entries.length - 1]).toMatchObject({
+      status: 'success',
+      bytesTransferred: fs.statSync(__filename).size,
+    });
+    expect(step).toHaveBeenCalledWith(4096, 3072, 4096);
+  });
+
+  test('should log progress entries of downloads into streams', async () => {
+    const slow = new SlowSftpClient();
+    const destination = new PassThrough();
+    destination.resume();
+    logger.instrumentSftp(slow, { ...options, progressInterval: 40 });
+
+    await slow.get('/out/large.bin', destination);
+
+    const entries = sftpLogs(infoSpy) as Record<string, unknown>[];
+    expect(entries.find(entry => entry.status === 'in_progress')).toMatchObject({
+      operation: 'download',
+      path: '/out/large.bin',
+      bytesTransferred: 1024,
+    });
+    expect(entries[entries.length - 1]).toMatchObject({
+      status: 'success',
+      bytesTransferred: 4096,
+    });
+  });
+
+  test('should not log progress entries when disabled', async () => {
+    const slow = new SlowSftpClient();
+    logger.instrumentSftp(slow, { ...options, progressInterval: 0 });
+
+    await slow.fastPut(__filename, '/in/large.bin', { step: () => undefined });
+    await waitFor(() => infoSpy.mock.calls.length > 0);
+
+    expect(sftpLogs(infoSpy)).toEqual([expect.objectContaining({ status: 'success' })]);
+  });
+
+  test('should resolve with the original outcome when logging fails', async () => {
+    logger.instrumentSftp(client, options);
+    infoSpy.mockImplementation(() => {
+      throw new Error('Logging failed');
+    });
+    errorSpy.mockImplementation(() => {
+      throw new Error('Logging failed');
+    });
+
+    await expect(client.stat('/in/a.csv')).resolves.toEqual({ size: 42 });
+    await expect(client.delete('/in/missing.csv')).rejects.toThrow('No such file');
+    expect(infoSpy).toHaveBeenCalled();
+  });
+
+  test('should rethrow synchronous errors without an unhandled rejection', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    const broken = {
+      stat(): never {
+        throw new Error('Not connected');
+      },
+    };
+    logger.instrumentSftp(broken, options);
+    errorSpy.mockImplementation(() => {
+      throw new Error('Logging failed');
+    });
+
+    try {
+      expect(() => broken.stat()).toThrow('Not connected');
+      await flush();
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  test('should log failures with the error and rethrow them', async () => {
+    const restore = logger.instrumentSftp(client, options);
+
+    await expect(client.delete('/in/missing.csv')).rejects.toThrow('No such file');
+
+    expect(errorSpy.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        sftp: {
+          host: 'sftp.example.com',
+          username: 'ftpuser',
+          operation: 'delete',
+          path: '/in/missing.csv',
+          status: 'failure',
+        },
+        error: expect.objectContaining({ message: 'delete: No such file /in/missing.csv' }),
+      }),
+      'SFTP delete failure - /in/missing.csv',
+    ]);
+
+    restore();
+    expect(Object.prototype.hasOwnProperty.call(client, 'delete')).toBe(false);
+    await client.stat('/in/a.csv');
+    expect(infoSpy).not.toHaveBeenCalled();
+  });
+});
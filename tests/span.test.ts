@@ -0,0 +1,148 @@
+import { UnnboundLogger, Span } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+
+describe('Spans', () => {
+  let logger: UnnboundLogger;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should log a span with timing and attributes when it ends', () => {
+    const span = logger.startSpan('load-orders', { source: 'erp' });
+    span.setAttribute('count', 3);
+    const spanLog = span.end();
+
+    expect(span).toBeInstanceOf(Span);
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(spanLog).toMatchObject({
+      type: 'general',
+      message: 'Span load-orders ok',
+      spanId: span.spanId,
+      span: {
+        name: 'load-orders',
+        spanId: span.spanId,
+        status: 'ok',
+        attributes: { source: 'erp', count: 3 },
+      },
+    });
+    expect(spanLog!.span.endTime).toBeGreaterThanOrEqual(spanLog!.span.startTime);
+    expect(spanLog!.duration).toBe(spanLog!.span.endTime - spanLog!.span.startTime);
+    expect(infoSpy).toHaveBeenCalledTimes(1);
+    expect(infoSpy.mock.calls[0][1]).toBe('Span load-orders ok');
+  });
+
+  test('should only log the first end call', () => {
+    const span = logger.startSpan('once');
+
+    expect(span.end()).toBeDefined();
+    expect(span.end('error')).toBeUndefined();
+    expect(span.status).toBe('ok');
+    expect(infoSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should log failed spans at error level with the error', () => {
+    const span = logger.startSpan('upload');
+    span.end('error', new Error('Connection reset'));
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      span: { status: 'error' },
+      error: { name: 'Error', message: 'Connection reset' },
+    });
+  });
+
+  test('should nest spans through the async context', async () => {
+    const parent = logger.startSpan('workflow');
+
+    const child = await parent.run(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const nested = logger.startSpan('step');
+      nested.run(() => logger.info('Inside step'));
+      nested.end();
+      return nested;
+    });
+    parent.end();
+
+    expect(child.traceId).toBe(parent.traceId);
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(parent.parentSpanId).toBeUndefined();
+
+    const generalLog = infoSpy.mock.calls[0][0];
+    expect(generalLog).toMatchObject({
+      traceId: parent.traceId,
+      spanId: child.spanId,
+      parentSpanId: parent.spanId,
+    });
+  });
+
+  test('should use the trace and span of the request context', () => {
+    traceContext.run({ traceId: 'trace-1', spanId: 'aaaaaaaaaaaaaaaa' }, () => {
+      const span = logger.startSpan('handler');
+      expect(span.traceId).toBe('trace-1');
+      expect(span.parentSpanId).toBe('aaaaaaaaaaaaaaaa');
+    });
+  });
+
+  test('should add the active span to transaction logs', () => {
+    const span = logger.startSpan('sync');
+    span.run(() => {
+      logger.dbQueryTransaction({ instance: 'db', vendor: 'postgres', status: 'success' });
+      logger.sftpTransaction({
+        host: 'sftp',
+        username: 'user',
+        operation: 'upload',
+        path: '/in/file.csv',
+        status: 'success',
+      });
+    });
+
+    for (const [entry] of infoSpy.mock.calls) {
+      expect(entry).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+    }
+  });
+
+  test('withSpan should end the span with the function outcome', () => {
+    const result = logger.withSpan('compute', span => {
+      span.setAttribute('input', 21);
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      span: { name: 'compute', status: 'ok', attributes: { input: 21 } },
+    });
+
+    expect(() =>
+      logger.withSpan('explode', () => {
+        throw new Error('Boom');
+      })
+    ).toThrow('Boom');
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      span: { name: 'explode', status: 'error' },
+      error: { message: 'Boom' },
+    });
+  });
+
+  test('withSpan should wait for promises to settle', async () => {
+    await expect(logger.withSpan('async-ok', async () => 'done')).resolves.toBe('done');
+    await expect(
+      logger.withSpan('async-fail', async () => {
+        throw new Error('Rejected');
+      })
+    ).rejects.toThrow('Rejected');
+
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({ span: { name: 'async-ok', status: 'ok' } });
+    expect(errorSpy.mock.calls[0][0]).toMatchObject({
+      span: { name: 'async-fail', status: 'error' },
+    });
+  });
+});
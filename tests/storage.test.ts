@@ -0,0 +1,246 @@
+import { createHash } from 'crypto';
+import { UnnboundLogger } from '../src';
+import { StorageMiddleware } from '../src/utils/storage-instrumentation';
+import { traceContext } from '../src/utils/trace-context';
+
+// Commands are identified by their class name, as in the AWS SDK
+class Command {
+  constructor(public readonly input: Record<string, unknown>) {}
+}
+class PutObjectCommand extends Command {}
+class GetObjectCommand extends Command {}
+class ListObjectsV2Command extends Command {}
+class CopyObjectCommand extends Command {}
+class DeleteObjectCommand extends Command {}
+class HeadBucketCommand extends Command {}
+
+// Local stub of an S3Client: an in-memory bucket behind an AWS SDK v3 style middleware stack
+class StubS3Client {
+  readonly objects = new Map<string, Buffer>();
+  private middlewares: { middleware: StorageMiddleware; name: string }[] = [];
+
+  readonly middlewareStack = {
+    add: (middleware: StorageMiddleware, options: { step: string; name: string }): void => {
+      this.middlewares.push({ middleware, name: options.name });
+    },
+    remove: (name: string): boolean => {
+      const count = this.middlewares.length;
+      this.middlewares = this.middlewares.filter(entry => entry.name !== name);
+      return this.middlewares.length < count;
+    },
+  };
+
+  async send(command: Command): Promise<Record<string, unknown>> {
+    const commandName = command.constructor.name;
+    const handler = this.middlewares.reduceRight(
+      (next, { middleware }) => middleware(next, { commandName }),
+      async (args: { input: Record<string, unknown> }) => ({
+        output: this.handle(commandName, args.input),
+      })
+    );
+    return (await handler({ input: command.input })).output;
+  }
+
+  private handle(commandName: string, input: Record<string, any>): Record<string, unknown> {
+    const etag = (body: Buffer): string => `"${createHash('md5').update(body).digest('hex')}"`;
+    switch (commandName) {
+      case 'PutObjectCommand': {
+        const body = Buffer.from(input.Body);
+        this.objects.set(input.Key, body);
+        return { ETag: etag(body) };
+      }
+      case 'GetObjectCommand': {
+        const body = this.objects.get(input.Key);
+        if (!body) {
+          throw Object.assign(new Error('The specified key does not exist.'), {
+            name: 'NoSuchKey',
+          });
+        }
+        return { Body: body, ContentLength: body.length, ETag: etag(body) };
+      }
+      case 'ListObjectsV2Command':
+        return { Contents: [...this.objects.keys()].map(Key => ({ Key })), KeyCount: 2 };
+      case 'CopyObjectCommand': {
+        const body = this.objects.get(input.CopySource.split('/').slice(1).join('/'))!;
+        this.objects.set(input.Key, body);
+        return { CopyObjectResult: { ETag: etag(body) } };
+      }
+      default:
+        return {};
+    }
+  }
+}
+
+describe('storageTransaction', () => {
+  let logger: UnnboundLogger;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should log successful operations at info level', () => {
+    const child = logger.child({ jobId: 'job-1' });
+    const childInfoSpy = jest.spyOn(child['logger'], 'info');
+
+    const log = child.storageTransaction(
+      {
+        bucket: 'orders',
+        key: 'in/orders.csv',
+        operation: 'put',
+        status: 'success',
+        bytesTransferred: 2048,
+        etag: '9b2cf535f27731c974343645a3985328',
+      },
+      { duration: 120 }
+    );
+
+    expect(log).toMatchObject({
+      type: 'storageTransaction',
+      message: 'Storage put success - orders/in/orders.csv',
+      duration: 120,
+      data: { jobId: 'job-1' },
+    });
+    expect(childInfoSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'storageTransaction', storage: log.storage }),
+      'Storage put success - orders/in/orders.csv'
+    );
+  });
+
+  test('should log failures at error level with the error', () => {
+    logger.storageTransaction(
+      { bucket: 'orders', operation: 'list', status: 'failure' },
+      { startTime: Date.now() - 50, error: new Error('Access Denied') }
+    );
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        storage: { bucket: 'orders', operation: 'list', status: 'failure' },
+        duration: expect.any(Number),
+        error: expect.objectContaining({ message: 'Access Denied' }),
+      }),
+      'Storage list failure - orders'
+    );
+  });
+});
+
+describe('S3 instrumentation', () => {
+  let logger: UnnboundLogger;
+  let client: StubS3Client;
+  let infoSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new UnnboundLogger();
+    client = new StubS3Client();
+    infoSpy = jest.spyOn(logger['logger'], 'info');
+    errorSpy = jest.spyOn(logger['logger'], 'error');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function storageLogs(spy: jest.SpyInstance): unknown[] {
+    return spy.mock.calls.map(([entry]) => entry.storage);
+  }
+
+  test('should log put, get, list, copy and delete commands', async () => {
+    logger.instrumentS3(client);
+
+    await traceContext.run('trace-1', () =>
+      client.send(new PutObjectCommand({ Bucket: 'orders', Key: 'in/a.csv', Body: 'id\n1\n' }))
+    );
+    await client.send(new GetObjectCommand({ Bucket: 'orders', Key: 'in/a.csv' }));
+    await client.send(new ListObjectsV2Command({ Bucket: 'orders', Prefix: 'in/' }));
+    await client.send(
+      new CopyObjectCommand({ Bucket: 'archive', Key: 'a.csv', CopySource: 'orders/in/a.csv' })
+    );
+    await client.send(new DeleteObjectCommand({ Bucket: 'orders', Key: 'in/a.csv' }));
+    await client.send(new HeadBucketCommand({ Bucket: 'orders' }));
+
+    const etag = createHash('md5').update('id\n1\n').digest('hex');
+    expect(infoSpy.mock.calls[0][0]).toMatchObject({
+      type: 'storageTransaction',
+      traceId: 'trace-1',
+    });
+    expect(storageLogs(infoSpy)).toEqual([
+      {
+        bucket: 'orders',
+        key: 'in/a.csv',
+        operation: 'put',
+        status: 'success',
+        bytesTransferred: 5,
+        etag,
+      },
+      {
+        bucket: 'orders',
+        key: 'in/a.csv',
+        operation: 'get',
+        status: 'success',
+        bytesTransferred: 5,
+        etag,
+      },
+      { bucket: 'orders', operation: 'list', status: 'success', objectsListed: 1 },
+      {
+        bucket: 'archive',
+        key: 'a.csv',
+        operation: 'copy',
+        status: 'success',
+        sourceBucket: 'orders',
+        sourceKey: 'in/a.csv',
+        etag,
+      },
+      { bucket: 'orders', key: 'in/a.csv', operation: 'delete', status: 'success' },
+    ]);
+  });
+
+  test('should log failed commands and rethrow the error', async () => {
+    logger.instrumentS3(client);
+
+    await expect(
+      client.send(new GetObjectCommand({ Bucket: 'orders', Key: 'missing.csv' }))
+    ).rejects.toThrow('The specified key does not exist.');
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        storage: { bucket: 'orders', key: 'missing.csv', operation: 'get', status: 'failure' },
+        error: expect.objectContaining({ name: 'NoSuchKey' }),
+      }),
+      'Storage get failure - orders/missing.csv'
+    );
+  });
+
+  test('should keep the outcome of commands when logging fails', async () => {
+    const logFailure = (): never => {
+      throw new Error('Log destination closed');
+    };
+    infoSpy.mockImplementation(logFailure);
+    errorSpy.mockImplementation(logFailure);
+    logger.instrumentS3(client);
+
+    await expect(
+      client.send(new PutObjectCommand({ Bucket: 'orders', Key: 'a.csv', Body: 'x' }))
+    ).resolves.toHaveProperty('ETag');
+    await expect(
+      client.send(new GetObjectCommand({ Bucket: 'orders', Key: 'missing.csv' }))
+    ).rejects.toThrow('The specified key does not exist.');
+
+    expect(infoSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop logging once the middleware is removed', async () => {
+    const uninstall = logger.instrumentS3(client);
+    uninstall();
+
+    await client.send(new PutObjectCommand({ Bucket: 'orders', Key: 'a.csv', Body: 'x' }));
+
+    expect(infoSpy).not.toHaveBeenCalled();
+  });
+});
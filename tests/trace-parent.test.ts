@@ -0,0 +1,188 @@
+import { UnnboundLogger } from '../src';
+import { traceContext } from '../src/utils/trace-context';
+import {
+  formatTraceParent,
+  generateSpanId,
+  parseTraceParent,
+  toW3cTraceId,
+} from '../src/utils/trace-parent';
+import { Request, Response } from 'express';
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+function createMocks(headers: Record<string, string>): { req: Request; res: Response } {
+  const res = {
+    statusCode: 200,
+    locals: {},
+    setHeader: jest.fn(),
+    getHeaders: jest.fn(() => ({})),
+    on: jest.fn(),
+    send: jest.fn(),
+  } as unknown as Response;
+  const req = {
+    method: 'GET',
+    path: '/orders',
+    originalUrl: '/orders',
+    headers,
+    header: jest.fn((name: string) => headers[name.toLowerCase()]),
+    get: jest.fn(),
+    protocol: 'http',
+    ip: '127.0.0.1',
+    res,
+  } as unknown as Request;
+  return { req, res };
+}
+
+describe('trace-parent utils', () => {
+  test('should parse a valid traceparent', () => {
+    expect(parseTraceParent(TRACEPARENT)).toEqual({
+      version: '00',
+      traceId: TRACE_ID,
+      parentId: PARENT_ID,
+      traceFlags: '01',
+    });
+  });
+
+  test('should reject invalid traceparent values', () => {
+    expect(parseTraceParent(undefined)).toBeUndefined();
+    expect(parseTraceParent('garbage')).toBeUndefined();
+    expect(parseTraceParent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceParent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeUndefined();
+    expect(parseTraceParent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeUndefined();
+    expect(parseTraceParent(`${TRACEPARENT}-extra`)).toBeUndefined();
+  });
+
+  test('should accept trailing fields for future versions', () => {
+    expect(parseTraceParent(`01-${TRACE_ID}-${PARENT_ID}-01-extra`)).toMatchObject({
+      version: '01',
+      traceId: TRACE_ID,
+    });
+  });
+
+  test('should convert UUID trace IDs to the W3C form', () => {
+    expect(toW3cTraceId('4BF92F35-77B3-4DA6-A3CE-929D0E0E4736')).toBe(TRACE_ID);
+    expect(toW3cTraceId('custom-trace-123')).toBeUndefined();
+  });
+
+  test('should format traceparent values', () => {
+    expect(formatTraceParent(TRACE_ID, PARENT_ID)).toBe(TRACEPARENT);
+    expect(formatTraceParent(TRACE_ID, PARENT_ID, '00')).toBe(`00-${TRACE_ID}-${PARENT_ID}-00`);
+    expect(formatTraceParent('not-hex', PARENT_ID)).toBeUndefined();
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('W3C trace context propagation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should ignore traceparent in the default custom mode', () => {
+    const logger = new UnnboundLogger();
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const { req, res } = createMocks({ traceparent: TRACEPARENT });
+
+    logger.traceMiddleware(req, res, jest.fn());
+
+    expect(infoSpy.mock.calls[0][0]).not.toHaveProperty('traceId', TRACE_ID);
+    expect(infoSpy.mock.calls[0][0]).not.toHaveProperty('spanId');
+    expect(res.setHeader).toHaveBeenCalledTimes(1);
+  });
+
+  test('should derive traceId and parent span from traceparent in w3c mode', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'w3c' });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const { req, res } = createMocks({ traceparent: TRACEPARENT, tracestate: 'vendor=abc' });
+
+    logger.traceMiddleware(req, res, () => logger.info('In handler'));
+
+    const [requestLog, generalLog] = infoSpy.mock.calls.map(call => call[0] as any);
+    expect(requestLog).toMatchObject({ traceId: TRACE_ID, parentSpanId: PARENT_ID });
+    expect(requestLog.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(generalLog.spanId).toBe(requestLog.spanId);
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'traceparent',
+      `00-${TRACE_ID}-${requestLog.spanId}-01`
+    );
+    expect(res.setHeader).toHaveBeenCalledWith('tracestate', 'vendor=abc');
+    expect(res.setHeader).not.toHaveBeenCalledWith('unnbound-trace-id', expect.anything());
+  });
+
+  test('should start a W3C trace when no traceparent is received', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'w3c' });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const { req, res } = createMocks({});
+
+    logger.traceMiddleware(req, res, jest.fn());
+
+    const requestLog = infoSpy.mock.calls[0][0] as any;
+    expect(requestLog.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(requestLog).not.toHaveProperty('parentSpanId');
+  });
+
+  test('should prefer the custom header and emit both in both mode', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'both' });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const customTraceId = '4bf92f35-77b3-4da6-a3ce-929d0e0e4736';
+    const { req, res } = createMocks({
+      'unnbound-trace-id': customTraceId,
+      traceparent: TRACEPARENT,
+    });
+
+    logger.traceMiddleware(req, res, jest.fn());
+
+    const requestLog = infoSpy.mock.calls[0][0] as any;
+    expect(requestLog).toMatchObject({ traceId: customTraceId, parentSpanId: PARENT_ID });
+    expect(res.setHeader).toHaveBeenCalledWith('unnbound-trace-id', customTraceId);
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'traceparent',
+      `00-${TRACE_ID}-${requestLog.spanId}-01`
+    );
+  });
+
+  test('should not link a parent span from a different trace', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'both' });
+    const infoSpy = jest.spyOn(logger['logger'], 'info');
+    const { req, res } = createMocks({
+      'unnbound-trace-id': 'custom-trace-123',
+      traceparent: TRACEPARENT,
+      tracestate: 'vendor=abc',
+    });
+
+    logger.traceMiddleware(req, res, jest.fn());
+
+    const requestLog = infoSpy.mock.calls[0][0] as any;
+    expect(requestLog.traceId).toBe('custom-trace-123');
+    expect(requestLog).not.toHaveProperty('parentSpanId');
+    expect(res.setHeader).not.toHaveBeenCalledWith('traceparent', expect.anything());
+  });
+
+  test('should inject traceparent and tracestate into outgoing axios requests', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'both' });
+    const config = { url: '/api/test', headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+    traceContext.run(
+      { traceId: TRACE_ID, spanId: 'a1b2c3d4e5f60718', traceFlags: '00', traceState: 'v=1' },
+      () => logger.axiosTraceMiddleware.onFulfilled(config)
+    );
+
+    expect(config.headers.get('unnbound-trace-id')).toBe(TRACE_ID);
+    expect(config.headers.get('traceparent')).toBe(`00-${TRACE_ID}-a1b2c3d4e5f60718-00`);
+    expect(config.headers.get('tracestate')).toBe('v=1');
+  });
+
+  test('should only inject traceparent in w3c mode', () => {
+    const logger = new UnnboundLogger({ traceHeaderMode: 'w3c' });
+    const config = { url: '/api/test', headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+    traceContext.run(TRACE_ID, () => logger.axiosTraceMiddleware.onFulfilled(config));
+
+    expect(config.headers.get('unnbound-trace-id')).toBeUndefined();
+    expect(config.headers.get('traceparent')).toMatch(
+      new RegExp(`^00-${TRACE_ID}-[0-9a-f]{16}-01$`)
+    );
+  });
+});